@@ -31,18 +31,16 @@ const client = new Client({
   },
 });
 
-// 优雅关闭
-process.on('SIGINT', () => {
+// 优雅关闭：等待处理中的事件完成并发送 ACK
+const shutdown = async () => {
   console.log('\n正在关闭...');
-  client.stop();
+  const { completed, abandoned } = await client.stop({ drainTimeoutMs: 5000 });
+  console.log(`已关闭: completed=${completed}, abandoned=${abandoned}`);
   process.exit(0);
-});
+};
 
-process.on('SIGTERM', () => {
-  console.log('\n正在关闭...');
-  client.stop();
-  process.exit(0);
-});
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
 
 // 启动客户端
 console.log('启动客户端...');
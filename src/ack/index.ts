@@ -0,0 +1,6 @@
+/**
+ * ACK 模块导出
+ */
+
+export { ManualAck } from './manual-ack';
+export type { SendAckFunc } from './manual-ack';
@@ -0,0 +1,89 @@
+/**
+ * 手动 ACK 控制
+ */
+
+import type { AckControl } from '../event/handler';
+import { AckCode } from '../protocol/messages';
+
+/**
+ * 发送 ACK 的回调
+ */
+export type SendAckFunc = (code: number, msg?: string) => void;
+
+/**
+ * 手动 ACK 控制
+ *
+ * 第一次调用 ack() / nack() 时发送 ACK，之后的调用会被忽略。
+ * 超过截止时间仍未确认时，自动发送失败 ACK。
+ */
+export class ManualAck implements AckControl {
+  /** 事件 nonce */
+  readonly nonce: string;
+
+  /** ACK 已发送（确认、拒绝或超时）后 resolve */
+  readonly settled: Promise<void>;
+
+  private readonly send: SendAckFunc;
+  private readonly onExpire: () => void;
+  private timer: NodeJS.Timeout | null = null;
+  private done = false;
+  private resolveSettled!: () => void;
+
+  /**
+   * @param nonce 事件 nonce
+   * @param deadline 确认截止时间（毫秒）
+   * @param send 发送 ACK 的回调
+   * @param onExpire 超时未确认时的回调（在发送失败 ACK 之前调用）
+   */
+  constructor(nonce: string, deadline: number, send: SendAckFunc, onExpire: () => void) {
+    this.nonce = nonce;
+    this.send = send;
+    this.onExpire = onExpire;
+    this.settled = new Promise<void>((resolve) => {
+      this.resolveSettled = resolve;
+    });
+    this.timer = setTimeout(() => this.expire(), deadline);
+  }
+
+  get acknowledged(): boolean {
+    return this.done;
+  }
+
+  ack(): void {
+    this.settle(AckCode.SUCCESS);
+  }
+
+  nack(code: number = AckCode.FAILED, msg?: string): void {
+    this.settle(code, msg);
+  }
+
+  /**
+   * 超时未确认，发送失败 ACK
+   */
+  private expire(): void {
+    this.timer = null;
+    if (this.done) {
+      return;
+    }
+    this.onExpire();
+    this.settle(AckCode.FAILED, 'ack deadline exceeded');
+  }
+
+  /**
+   * 发送 ACK（只发送一次）
+   */
+  private settle(code: number, msg?: string): void {
+    if (this.done) {
+      return;
+    }
+    this.done = true;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    this.send(code, msg);
+    this.resolveSettled();
+  }
+}
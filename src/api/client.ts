@@ -0,0 +1,184 @@
+/**
+ * OpenAPI 客户端
+ */
+
+import type {
+  ApiClientOptions,
+  ApiResponse,
+  V7SendMessageRequest,
+  V7SendMessageResponse,
+  V7SendMessageMention,
+  MessageSender,
+} from './types';
+import type { Logger } from '../logger/interface';
+import { NopLogger } from '../logger/default';
+import { signKso1 } from '../crypto';
+import { DEFAULT_API_BASE_URL, DefaultConfig } from '../protocol/constants';
+import { ApiClientError, ApiServerError } from '../errors';
+
+/**
+ * 发送文本消息选项
+ */
+export interface SendTextOptions {
+  /** 使用 markdown 格式 */
+  markdown?: boolean;
+  /** @信息 */
+  mentions?: V7SendMessageMention[];
+  /** 引用的消息 ID */
+  quoteMsgId?: string;
+}
+
+/**
+ * 构建文本消息请求
+ * @param chatId 会话 ID
+ * @param text 文本内容
+ * @param options 发送选项
+ */
+export function buildTextMessage(
+  chatId: string,
+  text: string,
+  options: SendTextOptions = {}
+): V7SendMessageRequest {
+  const request: V7SendMessageRequest = {
+    receiver: { type: 'chat', receiver_id: chatId },
+    type: 'text',
+    content: { text: { content: text, type: options.markdown ? 'markdown' : 'plain' } },
+  };
+  if (options.mentions?.length) {
+    request.mentions = options.mentions;
+  }
+  if (options.quoteMsgId) {
+    request.quote_msg_id = options.quoteMsgId;
+  }
+  return request;
+}
+
+/**
+ * OpenAPI 客户端
+ *
+ * 使用应用凭证为请求生成 KSO-1 签名，通过内置 fetch 调用 OpenAPI。
+ * 4xx 或业务错误码非 0 时抛出 ApiClientError，5xx、429 或网络错误时抛出 ApiServerError。
+ */
+export class ApiClient implements MessageSender {
+  private readonly appId: string;
+  private readonly appSecret: string;
+  private readonly baseUrl: string;
+  private readonly accessToken?: string | (() => string | Promise<string>);
+  private readonly timeout: number;
+  private readonly logger: Logger;
+
+  constructor(options: ApiClientOptions) {
+    this.appId = options.appId;
+    this.appSecret = options.appSecret;
+    this.baseUrl = (options.baseUrl ?? DEFAULT_API_BASE_URL).replace(/\/+$/, '');
+    this.accessToken = options.accessToken;
+    this.timeout = options.timeout ?? DefaultConfig.API_TIMEOUT;
+    this.logger = options.logger ?? new NopLogger();
+  }
+
+  /**
+   * 发送消息
+   * @param request 发送消息请求
+   * @returns 发送结果
+   */
+  sendMessage(request: V7SendMessageRequest): Promise<V7SendMessageResponse> {
+    return this.request<V7SendMessageResponse>('POST', '/v7/messages/create', request);
+  }
+
+  /**
+   * 向会话发送文本消息
+   * @param chatId 会话 ID
+   * @param text 文本内容
+   * @param options 发送选项
+   * @returns 发送结果
+   */
+  sendText(
+    chatId: string,
+    text: string,
+    options: SendTextOptions = {}
+  ): Promise<V7SendMessageResponse> {
+    return this.sendMessage(buildTextMessage(chatId, text, options));
+  }
+
+  /**
+   * 发送 KSO-1 签名的请求
+   * @param method 请求方法
+   * @param path 请求路径（可包含 query）
+   * @param body 请求体，会被序列化为 JSON
+   * @returns 响应数据（响应体中的 data）
+   */
+  async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const url = new URL(path, this.baseUrl + '/');
+    const uri = url.pathname + url.search;
+    const payload = body === undefined ? undefined : JSON.stringify(body);
+    const contentType = payload === undefined ? '' : 'application/json';
+
+    const headers: Record<string, string> = {
+      ...signKso1({
+        appId: this.appId,
+        appSecret: this.appSecret,
+        method,
+        uri,
+        contentType,
+        body: payload,
+      }),
+    };
+    if (contentType) {
+      headers['Content-Type'] = contentType;
+    }
+    const accessToken =
+      typeof this.accessToken === 'function' ? await this.accessToken() : this.accessToken;
+    if (accessToken) {
+      headers['Authorization'] = `Bearer ${accessToken}`;
+    }
+
+    this.logger.debug(`API request: ${method} ${uri}`);
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method,
+        headers,
+        body: payload,
+        signal: AbortSignal.timeout(this.timeout),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(`API request failed: ${method} ${uri}, error=${message}`);
+      throw new ApiServerError(0, -1, message);
+    }
+
+    const result = parseResponse<T>(await response.text());
+
+    if (!response.ok) {
+      const message = result?.msg ?? `Unexpected status code: ${response.status}`;
+      this.logger.error(`API request failed: ${method} ${uri}, status=${response.status}`);
+      throw response.status >= 500 || response.status === 429
+        ? new ApiServerError(response.status, result?.code ?? -1, message)
+        : new ApiClientError(response.status, result?.code ?? -1, message);
+    }
+
+    if (!result) {
+      throw new ApiServerError(response.status, -1, 'Invalid response body');
+    }
+
+    if (result.code !== 0) {
+      this.logger.error(`API request failed: ${method} ${uri}, code=${result.code}`);
+      throw new ApiClientError(response.status, result.code, result.msg ?? 'Unknown error');
+    }
+
+    return result.data as T;
+  }
+}
+
+/**
+ * 解析响应体，非 JSON 时返回 null
+ */
+function parseResponse<T>(text: string): ApiResponse<T> | null {
+  try {
+    const parsed = JSON.parse(text) as ApiResponse<T> | null;
+    return parsed && typeof parsed === 'object' && typeof parsed.code === 'number' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
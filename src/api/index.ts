@@ -0,0 +1,17 @@
+/**
+ * OpenAPI 模块导出
+ */
+
+export { ApiClient, buildTextMessage } from './client';
+export type { SendTextOptions } from './client';
+export type {
+  ApiClientOptions,
+  ApiResponse,
+  V7MessageReceiver,
+  V7SendMessageContentText,
+  V7SendMessageContent,
+  V7SendMessageMention,
+  V7SendMessageRequest,
+  V7SendMessageResponse,
+  MessageSender,
+} from './types';
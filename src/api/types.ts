@@ -0,0 +1,127 @@
+/**
+ * OpenAPI 请求与响应类型
+ */
+
+import type { Logger } from '../logger/interface';
+import type { V7Identity } from '../event/model/common';
+
+/**
+ * ApiClient 配置选项
+ */
+export interface ApiClientOptions {
+  /** 应用 ID */
+  appId: string;
+
+  /** 应用密钥 */
+  appSecret: string;
+
+  /**
+   * OpenAPI 地址
+   * @default 'https://openapi.wps.cn'
+   */
+  baseUrl?: string;
+
+  /**
+   * 访问凭证，设置后以 Authorization: Bearer 请求头发送
+   * 传入函数时每次请求前调用（可在其中缓存和刷新凭证）
+   */
+  accessToken?: string | (() => string | Promise<string>);
+
+  /**
+   * 请求超时（毫秒）
+   * @default 10000
+   */
+  timeout?: number;
+
+  /**
+   * 自定义日志实现
+   */
+  logger?: Logger;
+}
+
+/**
+ * OpenAPI 响应体
+ */
+export interface ApiResponse<T> {
+  /** 业务错误码，0 表示成功 */
+  code: number;
+  /** 错误信息 */
+  msg?: string;
+  /** 响应数据 */
+  data?: T;
+}
+
+/**
+ * 消息接收者
+ */
+export interface V7MessageReceiver {
+  /** 接收者类型：chat-会话，user-用户 */
+  type: 'chat' | 'user';
+  /** 会话 ID 或用户 ID */
+  receiver_id: string;
+}
+
+/**
+ * 发送消息内容 - 文本
+ */
+export interface V7SendMessageContentText {
+  /** 文本内容，@人时使用 <at id="{mention.id}">名称</at> 占位 */
+  content: string;
+  /** 文本类型 */
+  type?: 'plain' | 'markdown';
+}
+
+/**
+ * 发送消息内容
+ */
+export interface V7SendMessageContent {
+  /** 文本 */
+  text?: V7SendMessageContentText;
+  /** 图片 */
+  image?: { file_id: string };
+  /** 文件 */
+  file?: { file_id: string; name?: string };
+}
+
+/**
+ * 发送消息 @信息
+ */
+export interface V7SendMessageMention {
+  /** 占位 ID，与文本中 <at id="..."> 对应 */
+  id: string;
+  /** 类型：user-用户，all-所有人 */
+  type: 'user' | 'all';
+  /** 被@的身份（type=user 时必填） */
+  identity?: V7Identity;
+}
+
+/**
+ * 发送消息请求
+ */
+export interface V7SendMessageRequest {
+  /** 接收者 */
+  receiver: V7MessageReceiver;
+  /** 消息类型 */
+  type: 'text' | 'image' | 'file';
+  /** 消息内容 */
+  content: V7SendMessageContent;
+  /** @信息 */
+  mentions?: V7SendMessageMention[];
+  /** 引用的消息 ID */
+  quote_msg_id?: string;
+}
+
+/**
+ * 发送消息响应
+ */
+export interface V7SendMessageResponse {
+  /** 消息 ID */
+  message_id: string;
+}
+
+/**
+ * 消息发送接口（ApiClient 实现了该接口，测试时可替换为桩实现）
+ */
+export interface MessageSender {
+  sendMessage(request: V7SendMessageRequest): Promise<V7SendMessageResponse>;
+}
@@ -0,0 +1,181 @@
+/**
+ * decrypt 子命令：离线验签、解密抓取到的事件消息
+ */
+
+import { readFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { buildSignatureContent, decrypt, hmacSha256, verifySignature } from '../crypto';
+import type { EventMessage } from '../protocol/messages';
+import { CliUsageError, readStream } from './io';
+import type { CliIO } from './io';
+
+/**
+ * decrypt 子命令帮助
+ */
+export const DECRYPT_USAGE = `Usage: open-event decrypt [options] [file]
+
+Verify and decrypt a captured EventMessage JSON (or a recorded line written by
+EventRecorder) from file, or from stdin when file is omitted or "-".
+
+Options:
+  --app-id <id>          App ID (default: $APP_ID)
+  --app-secret <secret>  App secret (default: $APP_SECRET)
+  --skip-verify          Decrypt even if signature verification fails
+  -h, --help             Show this help
+`;
+
+/**
+ * decrypt 子命令选项
+ */
+export interface DecryptOptions {
+  appId: string;
+  appSecret: string;
+  file?: string;
+  verify: boolean;
+}
+
+/**
+ * 解析 decrypt 子命令参数
+ */
+export function parseDecryptArgs(args: string[], env: NodeJS.ProcessEnv): DecryptOptions {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      'app-id': { type: 'string' },
+      'app-secret': { type: 'string' },
+      'skip-verify': { type: 'boolean', default: false },
+    },
+    allowPositionals: true,
+    strict: true,
+  });
+
+  const appId = values['app-id'] ?? env.APP_ID;
+  const appSecret = values['app-secret'] ?? env.APP_SECRET;
+  if (!appId || !appSecret) {
+    throw new CliUsageError('--app-id and --app-secret are required');
+  }
+  if (positionals.length > 1) {
+    throw new CliUsageError('Only one file can be decrypted at a time');
+  }
+
+  const file = positionals[0];
+  return {
+    appId,
+    appSecret,
+    file: file === '-' ? undefined : file,
+    verify: !values['skip-verify'],
+  };
+}
+
+/**
+ * 解析抓取到的事件消息，兼容 EventRecorder 录制的行
+ */
+export function parseEventMessage(input: string): EventMessage {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(input);
+  } catch (error) {
+    throw new CliUsageError(
+      `Invalid EventMessage JSON: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const msg = (
+    parsed && typeof parsed === 'object' && 'message' in parsed ? parsed.message : parsed
+  ) as Partial<EventMessage> | null;
+
+  const missing = (['topic', 'nonce', 'time', 'signature', 'encrypted_data'] as const).filter(
+    (field) => msg?.[field] === undefined || msg[field] === ''
+  );
+  if (!msg || missing.length > 0) {
+    throw new CliUsageError(`Invalid EventMessage: missing ${missing.join(', ')}`);
+  }
+
+  return msg as EventMessage;
+}
+
+/**
+ * 生成签名验证失败的诊断信息
+ */
+export function diagnoseSignature(msg: EventMessage, appId: string, appSecret: string): string {
+  const params = {
+    accessKey: appId,
+    topic: msg.topic,
+    nonce: msg.nonce,
+    time: msg.time,
+    encryptedData: msg.encrypted_data,
+  };
+  const expected = hmacSha256(buildSignatureContent(params), appSecret);
+  const data = msg.encrypted_data;
+  const preview = data.length > 32 ? `${data.slice(0, 32)}... (${data.length} chars)` : data;
+
+  const lines = [
+    'Verify signature failed',
+    '',
+    'Signature content = access_key:topic:nonce:time:encrypted_data',
+    `  access_key     = ${appId}  (--app-id)`,
+    `  topic          = ${msg.topic}`,
+    `  nonce          = ${msg.nonce}`,
+    `  time           = ${msg.time}`,
+    `  encrypted_data = ${preview}`,
+    '',
+    'Signature = base64url(HMAC-SHA256(content, app_secret)), no padding',
+    `  expected = ${expected}`,
+    `  actual   = ${msg.signature}`,
+  ];
+
+  // 常见原因提示
+  const normalized = msg.signature.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  if (normalized === expected) {
+    lines.push(
+      '',
+      'Hint: actual signature uses standard base64 instead of base64url without padding'
+    );
+  } else {
+    lines.push('', 'Hint: check that --app-id and --app-secret belong to the app that received it');
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * 执行 decrypt 子命令
+ * @returns 退出码
+ */
+export async function decryptCommand(args: string[], io: CliIO): Promise<number> {
+  const options = parseDecryptArgs(args, io.env);
+  const input = options.file ? await readFile(options.file, 'utf-8') : await readStream(io.stdin);
+  const msg = parseEventMessage(input.trim());
+
+  const signatureValid = verifySignature({
+    accessKey: options.appId,
+    secretKey: options.appSecret,
+    topic: msg.topic,
+    nonce: msg.nonce,
+    time: msg.time,
+    encryptedData: msg.encrypted_data,
+    signature: msg.signature,
+  });
+
+  if (!signatureValid) {
+    io.stderr.write(diagnoseSignature(msg, options.appId, options.appSecret));
+    if (options.verify) {
+      return 1;
+    }
+  }
+
+  const data = decrypt({
+    secretKey: options.appSecret,
+    encryptedData: msg.encrypted_data,
+    nonce: msg.nonce,
+  });
+
+  let output = data;
+  try {
+    output = JSON.stringify(JSON.parse(data), null, 2);
+  } catch {
+    // 非 JSON 数据原样输出
+  }
+  io.stdout.write(output + '\n');
+  return signatureValid ? 0 : 1;
+}
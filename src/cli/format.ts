@@ -0,0 +1,49 @@
+/**
+ * 事件输出格式
+ */
+
+import type { Event } from '../event/event';
+
+/**
+ * 输出格式
+ * - pretty: 便于阅读的多行格式
+ * - ndjson: 每行一个 JSON 对象，便于管道处理
+ */
+export type OutputFormat = 'pretty' | 'ndjson';
+
+/**
+ * 解析事件数据，非 JSON 时返回原始字符串
+ */
+function parseData(data: string): unknown {
+  try {
+    return JSON.parse(data) as unknown;
+  } catch {
+    return data;
+  }
+}
+
+/**
+ * 格式化事件
+ * @param event 解密后的事件
+ * @param format 输出格式
+ * @returns 以换行结尾的输出内容
+ */
+export function formatEvent(event: Event, format: OutputFormat): string {
+  const data = parseData(event.data);
+
+  if (format === 'ndjson') {
+    return (
+      JSON.stringify({
+        eventCode: event.eventCode,
+        topic: event.topic,
+        operation: event.operation,
+        time: event.time,
+        data,
+      }) + '\n'
+    );
+  }
+
+  const time = new Date(event.time * 1000).toISOString();
+  const body = typeof data === 'string' ? data : JSON.stringify(data, null, 2);
+  return `--- ${time} ${event.eventCode}\n${body}\n`;
+}
@@ -0,0 +1,107 @@
+/**
+ * 命令行输入输出
+ */
+
+import type { Logger } from '../logger/interface';
+import { LogLevel } from '../logger/interface';
+
+/**
+ * 命令行输入输出流
+ */
+export interface CliIO {
+  /** 标准输入 */
+  stdin: NodeJS.ReadableStream;
+  /** 标准输出（事件、解密结果） */
+  stdout: NodeJS.WritableStream;
+  /** 标准错误（日志、错误信息） */
+  stderr: NodeJS.WritableStream;
+  /** 环境变量 */
+  env: NodeJS.ProcessEnv;
+}
+
+/**
+ * 读取流的全部内容
+ */
+export async function readStream(stream: NodeJS.ReadableStream): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+/**
+ * 命令行参数错误
+ */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+/**
+ * 日志级别名称
+ */
+const LOG_LEVELS: Record<string, LogLevel> = {
+  debug: LogLevel.Debug,
+  info: LogLevel.Info,
+  warn: LogLevel.Warn,
+  error: LogLevel.Error,
+  silent: LogLevel.Silent,
+};
+
+/**
+ * 解析日志级别名称
+ */
+export function parseLogLevel(name: string): LogLevel {
+  const level = LOG_LEVELS[name.toLowerCase()];
+  if (level === undefined) {
+    throw new CliUsageError(
+      `Invalid log level: ${name}, expected one of ${Object.keys(LOG_LEVELS).join(', ')}`
+    );
+  }
+  return level;
+}
+
+/**
+ * 输出到指定流的日志实现
+ *
+ * 命令行工具将日志写到标准错误，避免与标准输出中的事件混在一起。
+ */
+export class StreamLogger implements Logger {
+  private readonly stream: NodeJS.WritableStream;
+  private readonly level: LogLevel;
+
+  constructor(stream: NodeJS.WritableStream, level: LogLevel = LogLevel.Warn) {
+    this.stream = stream;
+    this.level = level;
+  }
+
+  debug(...args: unknown[]): void {
+    this.write(LogLevel.Debug, 'DEBUG', args);
+  }
+
+  info(...args: unknown[]): void {
+    this.write(LogLevel.Info, 'INFO', args);
+  }
+
+  warn(...args: unknown[]): void {
+    this.write(LogLevel.Warn, 'WARN', args);
+  }
+
+  error(...args: unknown[]): void {
+    this.write(LogLevel.Error, 'ERROR', args);
+  }
+
+  private write(level: LogLevel, name: string, args: unknown[]): void {
+    if (this.level > level) {
+      return;
+    }
+
+    const message = args
+      .map((arg) => (typeof arg === 'object' ? JSON.stringify(arg) : String(arg)))
+      .join(' ');
+    this.stream.write(`[${new Date().toISOString()}] [${name}] ${message}\n`);
+  }
+}
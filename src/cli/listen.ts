@@ -0,0 +1,141 @@
+/**
+ * listen 子命令：连接并打印收到的事件
+ */
+
+import { parseArgs } from 'node:util';
+import { Client } from '../client';
+import { AckError, ClientClosedError } from '../errors';
+import { AckCode } from '../protocol/messages';
+import { createEventCodeFilter } from '../event/pattern';
+import { formatEvent } from './format';
+import type { OutputFormat } from './format';
+import { CliUsageError, StreamLogger, parseLogLevel } from './io';
+import type { CliIO } from './io';
+
+/**
+ * listen 子命令帮助
+ */
+export const LISTEN_USAGE = `Usage: open-event listen [options]
+
+Connect with the app credentials and print decrypted events.
+
+Options:
+  --app-id <id>          App ID (default: $APP_ID)
+  --app-secret <secret>  App secret (default: $APP_SECRET)
+  --endpoint <url>       WebSocket endpoint
+  --filter <glob>        Only print events whose event code matches, repeatable
+                         (* matches one segment, ** matches any segments)
+  --format <format>      Output format: pretty (default) or ndjson
+  --no-ack               Connect without ACK mode
+  --ack-fail             Reply a failure ACK for every event (server will redeliver)
+  --log-level <level>    debug, info, warn (default), error or silent
+  -h, --help             Show this help
+`;
+
+/**
+ * listen 子命令选项
+ */
+export interface ListenOptions {
+  appId: string;
+  appSecret: string;
+  endpoint?: string;
+  filters: string[];
+  format: OutputFormat;
+  ack: boolean;
+  ackFail: boolean;
+  logLevel: string;
+}
+
+/**
+ * 解析 listen 子命令参数
+ */
+export function parseListenArgs(args: string[], env: NodeJS.ProcessEnv): ListenOptions {
+  const { values } = parseArgs({
+    args,
+    options: {
+      'app-id': { type: 'string' },
+      'app-secret': { type: 'string' },
+      endpoint: { type: 'string' },
+      filter: { type: 'string', multiple: true },
+      format: { type: 'string', default: 'pretty' },
+      'no-ack': { type: 'boolean', default: false },
+      'ack-fail': { type: 'boolean', default: false },
+      'log-level': { type: 'string', default: 'warn' },
+    },
+    strict: true,
+  });
+
+  const appId = values['app-id'] ?? env.APP_ID;
+  const appSecret = values['app-secret'] ?? env.APP_SECRET;
+  if (!appId || !appSecret) {
+    throw new CliUsageError('--app-id and --app-secret are required');
+  }
+
+  const format = values.format;
+  if (format !== 'pretty' && format !== 'ndjson') {
+    throw new CliUsageError(`Invalid format: ${format}, expected pretty or ndjson`);
+  }
+
+  if (values['no-ack'] && values['ack-fail']) {
+    throw new CliUsageError('--no-ack and --ack-fail cannot be used together');
+  }
+
+  return {
+    appId,
+    appSecret,
+    endpoint: values.endpoint,
+    filters: values.filter ?? [],
+    format,
+    ack: !values['no-ack'],
+    ackFail: values['ack-fail'],
+    logLevel: values['log-level'],
+  };
+}
+
+/**
+ * 执行 listen 子命令，直到 signal 中止后优雅关闭
+ * @returns 退出码
+ */
+export async function listen(args: string[], io: CliIO, signal?: AbortSignal): Promise<number> {
+  const options = parseListenArgs(args, io.env);
+  const matches = createEventCodeFilter(options.filters);
+
+  const client = new Client({
+    appId: options.appId,
+    appSecret: options.appSecret,
+    endpoint: options.endpoint,
+    ackMode: options.ack,
+    logger: new StreamLogger(io.stderr, parseLogLevel(options.logLevel)),
+    handler: {
+      handle(event) {
+        if (matches(event.eventCode)) {
+          io.stdout.write(formatEvent(event, options.format));
+        }
+        if (options.ackFail) {
+          throw new AckError(AckCode.FAILED, 'ack-fail requested by open-event listen');
+        }
+      },
+    },
+  });
+
+  const onAbort = () => {
+    void client.stop();
+  };
+  if (signal?.aborted) {
+    return 0;
+  }
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    await client.start();
+    return 0;
+  } catch (error) {
+    // 重连等待期间收到中止信号时 start() 以 ClientClosedError 结束，属于正常退出
+    if (signal?.aborted && error instanceof ClientClosedError) {
+      return 0;
+    }
+    throw error;
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * 命令行入口
+ */
+
+import { listen, LISTEN_USAGE } from './listen';
+import { decryptCommand, DECRYPT_USAGE } from './decrypt';
+import { CliUsageError } from './io';
+import type { CliIO } from './io';
+
+/**
+ * 命令行帮助
+ */
+const USAGE = `Usage: open-event <command> [options]
+
+Commands:
+  listen    Connect and print decrypted events
+  decrypt   Verify and decrypt a captured EventMessage offline
+
+Run "open-event <command> --help" for command options.
+`;
+
+/**
+ * 子命令
+ */
+interface Command {
+  usage: string;
+  run(args: string[], io: CliIO, signal?: AbortSignal): Promise<number>;
+}
+
+const COMMANDS: Record<string, Command> = {
+  listen: { usage: LISTEN_USAGE, run: listen },
+  decrypt: { usage: DECRYPT_USAGE, run: decryptCommand },
+};
+
+/**
+ * 执行命令行
+ * @param argv 命令行参数（不含 node 和脚本路径）
+ * @param io 输入输出流
+ * @param signal 中止信号（如 SIGINT）
+ * @returns 退出码
+ */
+export async function run(argv: string[], io: CliIO, signal?: AbortSignal): Promise<number> {
+  const [name, ...args] = argv;
+
+  if (!name) {
+    io.stderr.write(USAGE);
+    return 2;
+  }
+
+  if (name === '-h' || name === '--help') {
+    io.stdout.write(USAGE);
+    return 0;
+  }
+
+  const command = COMMANDS[name];
+  if (!command) {
+    io.stderr.write(`Unknown command: ${name}\n\n${USAGE}`);
+    return 2;
+  }
+
+  if (args.includes('-h') || args.includes('--help')) {
+    io.stdout.write(command.usage);
+    return 0;
+  }
+
+  try {
+    return await command.run(args, io, signal);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (error instanceof CliUsageError || isParseArgsError(error)) {
+      io.stderr.write(`${message}\n\n${command.usage}`);
+      return 2;
+    }
+    io.stderr.write(`${message}\n`);
+    return 1;
+  }
+}
+
+/**
+ * 是否为 util.parseArgs 抛出的参数错误
+ */
+function isParseArgsError(error: unknown): boolean {
+  const code = (error as NodeJS.ErrnoException | null)?.code;
+  return typeof code === 'string' && code.startsWith('ERR_PARSE_ARGS_');
+}
@@ -2,17 +2,57 @@
  * WebSocket 长连接客户端
  */
 
+import { EventEmitter } from 'node:events';
 import WebSocket from 'ws';
-import type { ClientOptions, ReconnectConfig, TimeoutConfig } from './types';
-import type { Handler } from './event/handler';
+import type {
+  ClientOptions,
+  ReconnectConfig,
+  TimeoutConfig,
+  QueueConfig,
+  RetryConfig,
+  ClientStats,
+  RedriveResult,
+  ReplayResult,
+  ClientEventMap,
+  EventDroppedInfo,
+  StopOptions,
+  StopResult,
+} from './types';
+import type { Handler, HandlerContext } from './event/handler';
+import { settleHandlerResult } from './event/handler';
 import type { Dispatcher } from './event/dispatcher';
+import { randomUUID } from 'node:crypto';
 import { createEvent } from './event/event';
+import type { Event } from './event/event';
+import { defaultOrderingKey } from './event/ordering';
+import type { OrderingKeyFunc } from './event/ordering';
 import type { Logger } from './logger/interface';
 import { LogLevel } from './logger/interface';
 import { DefaultLogger } from './logger/default';
-import { signForWebSocket, verifySignature, decrypt } from './crypto';
-import { DEFAULT_ENDPOINT, DefaultConfig, MESSAGE_TYPE_GOAWAY, GoAwayReason } from './protocol';
+import {
+  signForWebSocket,
+  verifySignature,
+  decrypt,
+  checkEventTime,
+  hmacSha256Hex,
+} from './crypto';
+import {
+  DEFAULT_ENDPOINT,
+  DefaultConfig,
+  MESSAGE_TYPE_GOAWAY,
+  GoAwayReason,
+  AckCode,
+  ACK_MSG_MAX_LENGTH,
+} from './protocol';
 import type { EventMessage, GoAwayMessage, BaseMessage, AckMessage } from './protocol';
+import { TaskQueue, KeyedSerializer } from './queue';
+import type { DedupStore } from './dedup';
+import { ManualAck } from './ack';
+import { matchDeadLetter } from './deadletter';
+import type { DeadLetterSink, DeadLetterFilter } from './deadletter';
+import type { EventRecorder, ReplaySource } from './recorder';
+import { SecretCache } from './secret';
+import type { AppSecrets } from './secret';
 import { ConnectionState } from './ws/types';
 import type { ClientState } from './ws/types';
 import { calculateBackoff, shouldReconnect, delay } from './ws/reconnect';
@@ -22,6 +62,10 @@ import {
   HandlerNotSetError,
   ClientClosedError,
   ReconnectExceededError,
+  HandlerTimeoutError,
+  DeadLetterSinkNotSetError,
+  AckError,
+  HandlerAggregateError,
 } from './errors';
 
 /**
@@ -39,13 +83,18 @@ import {
  *   },
  * });
  *
+ * client.on('reconnecting', ({ attempt, delay }) => {
+ *   console.log(`第 ${attempt} 次重连，等待 ${delay}ms`);
+ * });
+ *
  * await client.start();
  * ```
  */
-export class Client {
+export class Client extends EventEmitter<ClientEventMap> {
   // 认证信息
   private readonly appId: string;
-  private readonly appSecret: string;
+  // 应用密钥（密钥轮换期间包括旧密钥，第一个为当前密钥）
+  private readonly secrets: SecretCache;
 
   // 连接配置
   private readonly endpoint: string;
@@ -67,6 +116,45 @@ export class Client {
   // ACK 模式
   private readonly ackMode: boolean;
 
+  // 手动 ACK
+  private readonly manualAck: boolean;
+  private readonly ackDeadline: number;
+  private readonly outstandingAcks: Set<ManualAck> = new Set();
+
+  // 重放窗口
+  private readonly maxEventAge: number;
+  private readonly clockSkewTolerance: number;
+
+  // 事件处理超时
+  private readonly handlerTimeout: number;
+
+  // 事件处理重试
+  private readonly retryConfig: RetryConfig | null;
+
+  // 队列配置
+  private readonly queueConfig: QueueConfig;
+  private readonly taskQueue: TaskQueue;
+
+  // 顺序处理
+  private readonly orderingKey?: OrderingKeyFunc;
+  private readonly serializer: KeyedSerializer = new KeyedSerializer();
+
+  // 事件去重
+  private readonly dedupStore?: DedupStore;
+  private readonly processingNonces: Set<string> = new Set();
+
+  // 死信存储
+  private readonly deadLetterSink?: DeadLetterSink;
+
+  // 原始事件录制
+  private readonly recorder?: EventRecorder;
+
+  // 累计丢弃的事件数
+  private droppedCount = 0;
+
+  // 累计重复投递的事件数
+  private duplicateCount = 0;
+
   // 状态管理
   private state: ClientState = {
     connectionState: ConnectionState.Disconnected,
@@ -77,13 +165,24 @@ export class Client {
   // 停止信号
   private abortController: AbortController | null = null;
 
+  // 处理中的事件
+  private readonly inflightTasks: Set<Promise<void>> = new Set();
+
+  // 处理中的处理器取消信号
+  private readonly inflightHandlers: Set<AbortController> = new Set();
+
   // Pong 超时定时器
   private pongTimeoutTimer: NodeJS.Timeout | null = null;
 
   constructor(options: ClientOptions) {
+    super();
+
     // 必填参数
     this.appId = options.appId;
-    this.appSecret = options.appSecret;
+    this.secrets = new SecretCache(
+      options.appSecret,
+      options.secretCacheTtl ?? DefaultConfig.SECRET_CACHE_TTL
+    );
 
     // 可选参数
     this.endpoint = options.endpoint ?? DEFAULT_ENDPOINT;
@@ -112,6 +211,58 @@ export class Client {
 
     // ACK 模式
     this.ackMode = options.ackMode ?? DefaultConfig.ACK_MODE;
+
+    // 手动 ACK
+    this.manualAck = options.manualAck ?? false;
+    this.ackDeadline = options.ackDeadline ?? DefaultConfig.ACK_DEADLINE;
+    if (this.manualAck && !this.ackMode) {
+      this.logger.warn('manualAck requires ackMode, events will be handled without ACK');
+    }
+
+    // 重放窗口
+    this.maxEventAge = options.maxEventAge ?? DefaultConfig.MAX_EVENT_AGE;
+    this.clockSkewTolerance = options.clockSkewTolerance ?? DefaultConfig.CLOCK_SKEW;
+
+    // 事件处理超时
+    this.handlerTimeout = options.handlerTimeout ?? DefaultConfig.HANDLER_TIMEOUT;
+
+    // 事件处理重试
+    const retry = options.retry;
+    this.retryConfig = retry
+      ? {
+          maxAttempts: retry.maxAttempts,
+          baseInterval: retry.baseInterval ?? DefaultConfig.RETRY_BASE_INTERVAL,
+          maxInterval: retry.maxInterval ?? DefaultConfig.RETRY_MAX_INTERVAL,
+          multiplier: retry.multiplier ?? DefaultConfig.RETRY_MULTIPLIER,
+          jitter: retry.jitter ?? DefaultConfig.RETRY_JITTER,
+          retryable: retry.retryable ?? isRetryableError,
+        }
+      : null;
+
+    // 队列配置
+    const concurrency = options.concurrency ?? DefaultConfig.CONCURRENCY;
+    this.queueConfig = {
+      concurrency: concurrency < 0 ? Infinity : concurrency,
+      queueSize: options.queueSize ?? DefaultConfig.QUEUE_SIZE,
+      queueFullPolicy: options.queueFullPolicy ?? DefaultConfig.QUEUE_FULL_POLICY,
+    };
+    this.taskQueue = new TaskQueue(this.queueConfig.concurrency);
+
+    // 事件去重
+    this.dedupStore = options.dedupStore;
+
+    // 死信存储
+    this.deadLetterSink = options.deadLetterSink;
+
+    // 原始事件录制
+    this.recorder = options.recorder;
+
+    // 顺序处理
+    if (options.ordering === true) {
+      this.orderingKey = defaultOrderingKey;
+    } else if (typeof options.ordering === 'function') {
+      this.orderingKey = options.ordering;
+    }
   }
 
   /**
@@ -139,8 +290,8 @@ export class Client {
       // 等待连接关闭或停止信号
       await this.waitForClose();
     } catch (error) {
-      // 如果是客户端错误，不重试
-      if (error instanceof ClientError) {
+      // 如果是客户端错误或已停止，不重试
+      if (error instanceof ClientError || error instanceof ClientClosedError) {
         throw error;
       }
 
@@ -158,11 +309,165 @@ export class Client {
 
   /**
    * 停止 WebSocket 连接
+   *
+   * 停止接收新消息，等待处理中的事件完成并发送 ACK，然后以正常关闭帧关闭连接。
+   * 超过 drainTimeoutMs 仍未完成的事件会被放弃，并通过 context.signal 通知其处理器取消。
+   *
+   * @param options 停止选项
+   * @returns 处理中事件的完成情况
    */
-  stop(): void {
+  async stop(options: StopOptions = {}): Promise<StopResult> {
+    const drainTimeoutMs = options.drainTimeoutMs ?? DefaultConfig.DRAIN_TIMEOUT;
+    const connected = this.state.connectionState === ConnectionState.Connected;
     this.state.connectionState = ConnectionState.Closed;
+
+    // 未连接时（重连等待或握手中）立即取消，避免 drain 期间建立新连接
+    if (!connected) {
+      this.abortController?.abort();
+    }
+
+    // 等待处理中的事件
+    const result = await this.drain(drainTimeoutMs);
+    if (result.abandoned > 0) {
+      this.logger.warn(`Stop drain timeout, ${result.abandoned} in-flight events abandoned`);
+      for (const controller of Array.from(this.inflightHandlers)) {
+        controller.abort(new ClientClosedError());
+      }
+    }
+
+    // 放弃仍在排队的事件，避免连接关闭后继续执行
+    this.taskQueue.close();
+
+    // 拒绝仍未确认的事件，由服务端重新投递
+    for (const ackControl of Array.from(this.outstandingAcks)) {
+      ackControl.nack(AckCode.FAILED, 'client stopping');
+    }
+
+    // 正常关闭连接
+    await this.closeConnection();
     this.abortController?.abort();
     this.disconnect();
+
+    return result;
+  }
+
+  /**
+   * 获取运行统计（可用于监控队列深度）
+   */
+  getStats(): ClientStats {
+    return {
+      running: this.taskQueue.running,
+      queued: this.queuedCount(),
+      dropped: this.droppedCount,
+      duplicates: this.duplicateCount,
+      pendingAcks: this.outstandingAcks.size,
+    };
+  }
+
+  /**
+   * 重新处理死信
+   *
+   * 将满足过滤条件的死信依次交给当前的 Dispatcher（或 Handler）处理，
+   * 处理成功的死信从存储中删除，失败的死信累加处理次数后写回。
+   * 重新处理不会发送 ACK。
+   *
+   * @param filter 过滤条件，默认处理所有死信
+   * @returns 重新处理结果
+   */
+  async redrive(filter: DeadLetterFilter = {}): Promise<RedriveResult> {
+    if (!this.deadLetterSink) {
+      throw new DeadLetterSinkNotSetError();
+    }
+    if (!this.handler && !this.dispatcher) {
+      throw new HandlerNotSetError();
+    }
+
+    const letters = (await this.deadLetterSink.list()).filter((letter) =>
+      matchDeadLetter(letter, filter)
+    );
+    this.logger.info(`Redriving ${letters.length} dead letters`);
+
+    const result: RedriveResult = { total: letters.length, succeeded: 0, failed: 0, skipped: 0 };
+    for (const letter of letters) {
+      // 服务端重新投递后已处理成功的事件不再重复处理
+      if (await this.isDuplicate(letter.nonce)) {
+        result.skipped++;
+        this.logger.info(`Skip dead letter already processed: id=${letter.id}`);
+        await this.deadLetterSink.remove([letter.id]);
+        continue;
+      }
+
+      const { topic, operation, time, data } = letter.event;
+      const event = createEvent(topic, operation, time, data);
+
+      try {
+        await this.invokeHandler(event, letter.attempts + 1);
+      } catch (error) {
+        const redriveError = toError(error);
+        result.failed++;
+        this.logger.error(
+          `Redrive dead letter failed: id=${letter.id}, event_code=${event.eventCode}, error=${redriveError.message}`
+        );
+        await this.deadLetterSink.put({
+          ...letter,
+          error: { name: redriveError.name, message: redriveError.message },
+          attempts: letter.attempts + 1,
+          failedAt: Date.now(),
+        });
+        continue;
+      }
+
+      result.succeeded++;
+      await this.deadLetterSink.remove([letter.id]);
+      await this.markProcessed(letter.nonce);
+    }
+
+    this.logger.info(
+      `Redrive finished: total=${result.total}, succeeded=${result.succeeded}, failed=${result.failed}, skipped=${result.skipped}`
+    );
+    return result;
+  }
+
+  /**
+   * 回放录制的原始事件
+   *
+   * 录制的事件按顺序经过与线上相同的验签、解密流程后交给当前的 Dispatcher（或 Handler）处理，
+   * 可在本地使用相同的应用密钥复现问题。回放不检查事件时间、不去重、不重试、不发送 ACK，
+   * 也不会写入死信存储。
+   *
+   * @param source 回放源
+   * @returns 回放结果
+   */
+  async replay(source: ReplaySource): Promise<ReplayResult> {
+    if (!this.handler && !this.dispatcher) {
+      throw new HandlerNotSetError();
+    }
+
+    const result: ReplayResult = { total: 0, succeeded: 0, failed: 0, dropped: 0 };
+    for await (const { message } of source) {
+      result.total++;
+
+      const event = this.openEvent(message, await this.secrets.get(), false);
+      if (!event) {
+        result.dropped++;
+        continue;
+      }
+
+      try {
+        await this.invokeHandler(event, 1);
+        result.succeeded++;
+      } catch (error) {
+        result.failed++;
+        this.logger.error(
+          `Replay event failed: event_code=${event.eventCode}, nonce=${message.nonce}, error=${toError(error).message}`
+        );
+      }
+    }
+
+    this.logger.info(
+      `Replay finished: total=${result.total}, succeeded=${result.succeeded}, failed=${result.failed}, dropped=${result.dropped}`
+    );
+    return result;
   }
 
   /**
@@ -176,16 +481,20 @@ export class Client {
    * 建立 WebSocket 连接
    */
   private async connect(): Promise<void> {
+    if (this.state.connectionState === ConnectionState.Closed) {
+      throw new ClientClosedError();
+    }
     this.state.connectionState = ConnectionState.Connecting;
 
     // 解析端点 URL
     const url = new URL(this.endpoint);
     const uri = url.pathname + url.search;
 
-    // 生成 KSO-1 签名
+    // 生成 KSO-1 签名（每次握手前重新获取密钥，使用当前密钥）
+    const [currentSecret] = await this.loadSecrets(true);
     const headers = signForWebSocket({
       appId: this.appId,
-      appSecret: this.appSecret,
+      appSecret: currentSecret,
       uri,
     });
 
@@ -198,12 +507,14 @@ export class Client {
     }
 
     this.logger.debug(`Connecting to ${this.endpoint}, ack_mode: ${this.ackMode}`);
+    this.emit('connecting', { endpoint: this.endpoint, attempt: this.state.retryCount });
 
     return new Promise<void>((resolve, reject) => {
       // 创建 WebSocket 连接
       const ws = new WebSocket(this.endpoint, {
         headers: wsHeaders,
       });
+      let opened = false;
 
       // 连接超时
       const connectTimeout = setTimeout(() => {
@@ -213,18 +524,29 @@ export class Client {
 
       ws.on('open', () => {
         clearTimeout(connectTimeout);
+
+        // 握手期间已调用 stop()，直接关闭新连接
+        if (this.state.connectionState === ConnectionState.Closed) {
+          ws.close(1000, 'client stop');
+          reject(new ClientClosedError());
+          return;
+        }
+
+        opened = true;
         this.ws = ws;
         this.state.connectionState = ConnectionState.Connected;
         this.state.receivedGoAway = false;
         this.state.retryCount = 0;
         this.setupPongTimeout();
         this.logger.info(`Connected to ${this.endpoint}`);
+        this.emit('connected', { endpoint: this.endpoint });
         resolve();
       });
 
       ws.on('error', (error) => {
         clearTimeout(connectTimeout);
         this.logger.error('WebSocket error:', error.message);
+        this.emitError(error);
         reject(new ServerError(0, error.message));
       });
 
@@ -254,7 +576,90 @@ export class Client {
         } else {
           this.logger.info(`Connection closed: code=${code}, reason=${reason.toString()}`);
         }
+        if (opened) {
+          this.emit('disconnected', {
+            code,
+            reason: reason.toString(),
+            goaway: this.state.receivedGoAway,
+          });
+        }
+      });
+    });
+  }
+
+  /**
+   * 获取密钥（握手时忽略缓存重新加载）
+   * 密钥提供者调用失败时退回上次成功加载的密钥，避免一次临时故障终止重连或丢弃事件；从未加载成功时抛出
+   */
+  private async loadSecrets(refresh: boolean): Promise<AppSecrets> {
+    try {
+      return await (refresh ? this.secrets.refresh() : this.secrets.get());
+    } catch (error) {
+      const cached = this.secrets.stale();
+      if (!cached) {
+        throw error;
+      }
+      this.logger.warn(`Secret provider failed, use cached secrets: ${toError(error).message}`);
+      this.emitError(error);
+      return cached;
+    }
+  }
+
+  /**
+   * 等待处理中的事件完成
+   */
+  private async drain(timeoutMs: number): Promise<StopResult> {
+    const tasks = Array.from(this.inflightTasks);
+    if (tasks.length === 0) {
+      return { completed: 0, abandoned: 0 };
+    }
+
+    this.logger.info(`Draining ${tasks.length} in-flight events`);
+
+    let completed = 0;
+    const settled = Promise.all(
+      tasks.map((task) =>
+        task.then(
+          () => {
+            completed++;
+          },
+          () => {
+            completed++;
+          }
+        )
+      )
+    );
+
+    const timer = new AbortController();
+    await Promise.race([settled, delay(timeoutMs, timer.signal).catch(() => undefined)]);
+    timer.abort();
+
+    return { completed, abandoned: tasks.length - completed };
+  }
+
+  /**
+   * 以正常关闭帧关闭连接，超时后强制断开
+   */
+  private async closeConnection(): Promise<void> {
+    const ws = this.ws;
+    if (!ws || ws.readyState !== WebSocket.OPEN) {
+      return;
+    }
+
+    this.clearPongTimeout();
+
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(() => {
+        ws.terminate();
+        resolve();
+      }, this.timeoutConfig.writeTimeout);
+
+      ws.once('close', () => {
+        clearTimeout(timer);
+        resolve();
       });
+
+      ws.close(1000, 'client stop');
     });
   }
 
@@ -298,6 +703,7 @@ export class Client {
       // 计算等待时间
       const waitTime = calculateBackoff(this.reconnectConfig, this.state.retryCount);
       this.logger.info(`Reconnecting in ${waitTime}ms, attempt ${this.state.retryCount}`);
+      this.emit('reconnecting', { attempt: this.state.retryCount, delay: waitTime });
 
       // 等待
       try {
@@ -316,14 +722,19 @@ export class Client {
         await this.waitForClose();
         return;
       } catch (error) {
-        // 如果是客户端错误，不继续重试
-        if (error instanceof ClientError) {
+        // 如果是客户端错误或已停止，不继续重试
+        if (error instanceof ClientError || error instanceof ClientClosedError) {
           throw error;
         }
 
         this.logger.error('Reconnect failed:', error instanceof Error ? error.message : error);
-        // 只清理 WebSocket 连接，不改变状态（保持 Reconnecting 以继续重试循环）
+        this.emitError(error);
+        // 只清理 WebSocket 连接，恢复 Reconnecting 状态以继续重试循环（connect() 会改为 Connecting）
         this.cleanupConnection();
+        // stop() 可能在 connect() 期间修改状态，不能依赖循环条件的类型收窄
+        if ((this.state.connectionState as ConnectionState) !== ConnectionState.Closed) {
+          this.state.connectionState = ConnectionState.Reconnecting;
+        }
       }
     }
   }
@@ -389,50 +800,234 @@ export class Client {
         return;
       }
 
+      // 录制原始事件消息
+      this.recordMessage(base as EventMessage);
+
       // 事件消息需要验证 topic 和 operation 不能为空
       if (!base.topic || !base.operation) {
         this.logger.error(`Invalid event message: topic or operation is empty, message=${message}`);
+        this.dropEvent({ reason: 'invalid_message' });
+        return;
+      }
+
+      // 停止中不再接收新事件，由服务端重新投递
+      if (this.state.connectionState === ConnectionState.Closed) {
+        this.logger.warn('Client is stopping, drop event message');
+        this.dropEvent({
+          reason: 'client_stopping',
+          eventCode: `${base.topic}.${base.operation}`,
+        });
         return;
       }
 
       // 处理事件消息
-      void this.handleEventMessage(message);
+      this.handleEventMessage(message);
     } catch (error) {
       this.logger.error('Handle message failed:', error instanceof Error ? error.message : error);
+      this.dropEvent({ reason: 'invalid_message', error: toError(error) });
     }
   }
 
   /**
-   * 处理事件消息
+   * 录制原始事件消息，录制失败不影响事件处理
+   */
+  private recordMessage(msg: EventMessage): void {
+    if (!this.recorder) {
+      return;
+    }
+
+    this.recorder.record(msg, Date.now()).catch((error: unknown) => {
+      this.logger.warn('Record event failed:', error instanceof Error ? error.message : error);
+    });
+  }
+
+  /**
+   * 处理事件消息：验签、解密后加入处理队列
    */
-  private async handleEventMessage(message: string): Promise<void> {
+  private handleEventMessage(message: string): void {
     const msg = JSON.parse(message) as EventMessage;
 
+    // 密钥缓存有效时同步处理，否则等待密钥提供者返回
+    // 等待期间到达的事件共享同一次调用，仍按接收顺序处理
+    const secrets = this.secrets.peek();
+    if (secrets) {
+      this.acceptEvent(msg, secrets);
+      return;
+    }
+
+    this.track(
+      this.loadSecrets(false).then(
+        (resolved) => this.acceptEvent(msg, resolved),
+        (error: unknown) => {
+          const secretError = toError(error);
+          this.logger.error(`Load app secret failed: ${secretError.message}`);
+          if (this.ackMode) {
+            this.sendAck(msg.nonce, secretError);
+          }
+          this.dropEvent({
+            reason: 'secret_unavailable',
+            eventCode: `${msg.topic}.${msg.operation}`,
+            nonce: msg.nonce,
+            error: secretError,
+          });
+          this.emitError(secretError);
+        }
+      )
+    );
+  }
+
+  /**
+   * 验签、解密事件后加入处理队列
+   */
+  private acceptEvent(msg: EventMessage, secrets: AppSecrets): void {
+    const event = this.openEvent(msg, secrets);
+    if (!event) {
+      return;
+    }
+
+    const { queueSize, queueFullPolicy } = this.queueConfig;
+
+    if (this.queuedCount() >= queueSize && queueFullPolicy === 'drop') {
+      const error = new Error('Event queue is full');
+      this.logger.warn(`Event queue is full, drop event: event_code=${event.eventCode}`);
+      if (this.ackMode) {
+        this.sendAck(msg.nonce, error);
+      }
+      this.dropEvent({ reason: 'queue_full', eventCode: event.eventCode, nonce: msg.nonce, error });
+      return;
+    }
+
+    // 处理器返回后即释放并发槽位和顺序 key，等待手动确认的事件直到确认后才算处理完成
+    let pendingAck: ManualAck | null = null;
+    const task = () =>
+      this.taskQueue.push(async () => {
+        pendingAck = await this.processEvent(msg, event);
+      });
+    const key = this.getOrderingKey(event);
+    const handled = key === undefined ? task() : this.serializer.run(key, task);
+    this.track(handled.then(() => pendingAck?.settled));
+
+    // 队列已满时暂停读取，待有空位后恢复
+    if (
+      queueFullPolicy === 'pause' &&
+      this.queuedCount() >= queueSize &&
+      this.ws &&
+      !this.ws.isPaused
+    ) {
+      this.logger.warn('Event queue is full, pause reading');
+      this.ws.pause();
+      // 暂停期间收不到服务端 Ping，挂起 Pong 超时检测，避免误判断线丢失待发送的 ACK
+      this.clearPongTimeout();
+    }
+  }
+
+  /**
+   * 排队等待处理的事件数（包括等待同 key 前序事件的事件）
+   */
+  private queuedCount(): number {
+    return this.taskQueue.size + this.serializer.size;
+  }
+
+  /**
+   * 获取事件的顺序处理 key
+   */
+  private getOrderingKey(event: Event): string | undefined {
+    if (!this.orderingKey) {
+      return undefined;
+    }
+
+    try {
+      return this.orderingKey(event);
+    } catch (error) {
+      this.logger.warn('Get ordering key failed:', error instanceof Error ? error.message : error);
+      return undefined;
+    }
+  }
+
+  /**
+   * 队列有空位时恢复读取
+   */
+  private resumeReadingIfPossible(): void {
+    if (this.ws?.isPaused && this.queuedCount() < this.queueConfig.queueSize) {
+      this.logger.info('Event queue has space, resume reading');
+      this.ws.resume();
+      this.setupPongTimeout();
+    }
+  }
+
+  /**
+   * 记录处理中的事件，完成后移除
+   */
+  private track(task: Promise<void>): void {
+    const tracked = task
+      .catch((error: unknown) => {
+        this.logger.error(
+          'Handle event message failed:',
+          error instanceof Error ? error.message : error
+        );
+      })
+      .finally(() => {
+        this.inflightTasks.delete(tracked);
+        this.resumeReadingIfPossible();
+      });
+    this.inflightTasks.add(tracked);
+  }
+
+  /**
+   * 验证签名并解密事件
+   * 验证或解密失败时丢弃事件并返回 null
+   */
+  private openEvent(msg: EventMessage, secrets: AppSecrets, checkTime = true): Event | null {
     // 生成事件编码
     const eventCode = `${msg.topic}.${msg.operation}`;
     this.logger.debug(`Received event: event_code=${eventCode}`);
 
-    // 验证签名
-    const signatureValid = verifySignature({
-      accessKey: this.appId,
-      secretKey: this.appSecret,
-      topic: msg.topic,
-      nonce: msg.nonce,
-      time: msg.time,
-      encryptedData: msg.encrypted_data,
-      signature: msg.signature,
-    });
+    // 验证签名，密钥轮换期间依次尝试每个密钥
+    const secretIndex = secrets.findIndex((secretKey) =>
+      verifySignature({
+        accessKey: this.appId,
+        secretKey,
+        topic: msg.topic,
+        nonce: msg.nonce,
+        time: msg.time,
+        encryptedData: msg.encrypted_data,
+        signature: msg.signature,
+      })
+    );
+    const secretKey = secrets[secretIndex];
 
-    if (!signatureValid) {
+    if (secretKey === undefined) {
       this.logger.error('Verify signature failed');
-      return;
+      this.dropEvent({ reason: 'invalid_signature', eventCode, nonce: msg.nonce });
+      return null;
+    }
+
+    // 检查事件时间，拒绝重放的事件
+    if (checkTime && this.maxEventAge > 0) {
+      try {
+        checkEventTime({
+          time: msg.time,
+          maxEventAge: this.maxEventAge,
+          clockSkew: this.clockSkewTolerance,
+        });
+      } catch (error) {
+        const replayError = toError(error);
+        this.logger.error(`Reject replayed event: ${replayError.message}, nonce=${msg.nonce}`);
+        this.dropEvent({ reason: 'replay', eventCode, nonce: msg.nonce, error: replayError });
+        this.emitError(replayError);
+        // 告知服务端拒绝该事件，避免其等待 ACK 超时后反复重推
+        if (this.ackMode) {
+          this.sendAckMessage(msg.nonce, AckCode.REJECTED, replayError.message);
+        }
+        return null;
+      }
     }
 
     // 解密数据
     let decryptedData: string;
     try {
       decryptedData = decrypt({
-        secretKey: this.appSecret,
+        secretKey,
         encryptedData: msg.encrypted_data,
         nonce: msg.nonce,
       });
@@ -441,23 +1036,94 @@ export class Client {
         'Decrypt event data failed:',
         error instanceof Error ? error.message : error
       );
-      return;
+      this.dropEvent({
+        reason: 'decrypt_failed',
+        eventCode,
+        nonce: msg.nonce,
+        error: toError(error),
+      });
+      return null;
+    }
+
+    // 记录匹配的密钥，旧密钥匹配说明服务端仍在使用轮换前的密钥
+    const matched = `app secret #${secretIndex} (${secretFingerprint(secretKey)})`;
+    if (secretIndex === 0) {
+      this.logger.debug(`Event opened with current ${matched}, nonce=${msg.nonce}`);
+    } else {
+      this.logger.info(`Event opened with previous ${matched}, nonce=${msg.nonce}`);
     }
 
     // 创建事件
-    const event = createEvent(msg.topic, msg.operation, msg.time, decryptedData);
+    return createEvent(msg.topic, msg.operation, msg.time, decryptedData);
+  }
 
-    // 调用处理器
-    let handleError: Error | null = null;
+  /**
+   * 调用处理器处理事件并发送 ACK
+   * @returns 等待处理器确认的手动 ACK（未启用手动 ACK 或已确认时为 null）
+   */
+  private async processEvent(msg: EventMessage, event: Event): Promise<ManualAck | null> {
+    // 同一事件正在处理中（并发重新投递），由首次处理发送 ACK
+    if (this.dedupStore && msg.nonce && this.processingNonces.has(msg.nonce)) {
+      this.duplicateCount++;
+      this.logger.info(
+        `Duplicate event in progress skipped: event_code=${event.eventCode}, nonce=${msg.nonce}, total=${this.duplicateCount}`
+      );
+      return null;
+    }
+
+    if (!this.dedupStore || !msg.nonce) {
+      return this.handleEvent(msg, event);
+    }
+
+    const nonce = msg.nonce;
+    this.processingNonces.add(nonce);
+    let pendingAck: ManualAck | null = null;
     try {
-      if (this.dispatcher) {
-        await this.dispatcher.handle(event);
-      } else if (this.handler) {
-        await this.handler.handle(event);
+      pendingAck = await this.handleEvent(msg, event);
+      return pendingAck;
+    } finally {
+      // 等待确认期间仍视为处理中
+      if (pendingAck) {
+        void pendingAck.settled.then(() => this.processingNonces.delete(nonce));
+      } else {
+        this.processingNonces.delete(nonce);
       }
-    } catch (error) {
-      handleError = error instanceof Error ? error : new Error(String(error));
+    }
+  }
+
+  /**
+   * 去重检查后调用处理器并发送 ACK
+   */
+  private async handleEvent(msg: EventMessage, event: Event): Promise<ManualAck | null> {
+    // 重复投递的事件直接回复成功 ACK
+    if (await this.isDuplicate(msg.nonce)) {
+      this.duplicateCount++;
+      this.logger.info(
+        `Duplicate event skipped: event_code=${event.eventCode}, nonce=${msg.nonce}, total=${this.duplicateCount}`
+      );
+      if (this.ackMode) {
+        this.sendAck(msg.nonce, null);
+      }
+      return null;
+    }
+
+    // 手动 ACK 模式下由处理器确认
+    const ackControl = this.ackMode && this.manualAck ? this.createManualAck(msg, event) : null;
+
+    // 调用处理器
+    const { error: handleError, attempts } = await this.handleWithRetry(event, ackControl);
+    if (handleError) {
       this.logger.error('Handle event failed:', handleError.message);
+      this.emitError(handleError);
+      await this.writeDeadLetter(msg, event, handleError, attempts);
+    }
+
+    // 处理失败且未确认时自动拒绝，否则等待处理器确认（或超时）
+    if (ackControl) {
+      if (handleError) {
+        ackControl.nack(ackCodeOf(handleError), handleError.message);
+      }
+      return ackControl.acknowledged ? null : ackControl;
     }
 
     // 如果启用 ACK 模式，发送 ACK
@@ -466,7 +1132,212 @@ export class Client {
     }
 
     if (!handleError) {
-      this.logger.debug(`Event handled: event_code=${eventCode}`);
+      this.logger.debug(`Event handled: event_code=${event.eventCode}`);
+      await this.markProcessed(msg.nonce);
+      await this.removeDeadLetter(msg.nonce);
+    }
+    return null;
+  }
+
+  /**
+   * 创建手动 ACK 控制，并记录为待确认
+   */
+  private createManualAck(msg: EventMessage, event: Event): ManualAck {
+    const nonce = msg.nonce;
+    const ackControl = new ManualAck(
+      nonce,
+      this.ackDeadline,
+      (code, ackMsg) => {
+        this.outstandingAcks.delete(ackControl);
+        this.sendAckMessage(nonce, code, ackMsg);
+        if (code === AckCode.SUCCESS) {
+          void this.markProcessed(nonce);
+          void this.removeDeadLetter(nonce);
+        }
+      },
+      () => {
+        this.logger.warn(
+          `Event not acknowledged within ${this.ackDeadline}ms, send failure ack: event_code=${event.eventCode}, nonce=${nonce}`
+        );
+      }
+    );
+    this.outstandingAcks.add(ackControl);
+    return ackControl;
+  }
+
+  /**
+   * 将处理失败的事件写入死信存储
+   */
+  private async writeDeadLetter(
+    msg: EventMessage,
+    event: Event,
+    error: Error,
+    attempts: number
+  ): Promise<void> {
+    if (!this.deadLetterSink) {
+      return;
+    }
+
+    try {
+      await this.deadLetterSink.put({
+        id: msg.nonce || randomUUID(),
+        nonce: msg.nonce,
+        event,
+        error: { name: error.name, message: error.message },
+        attempts,
+        failedAt: Date.now(),
+      });
+    } catch (sinkError) {
+      this.logger.error(
+        'Write dead letter failed:',
+        sinkError instanceof Error ? sinkError.message : sinkError
+      );
+    }
+  }
+
+  /**
+   * 检查事件是否已处理过（存储异常时按未处理继续）
+   */
+  private async isDuplicate(nonce: string): Promise<boolean> {
+    if (!this.dedupStore || !nonce) {
+      return false;
+    }
+
+    try {
+      return await this.dedupStore.has(nonce);
+    } catch (error) {
+      this.logger.warn('Dedup store check failed:', error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+
+  /**
+   * 记录已成功处理的事件
+   */
+  private async markProcessed(nonce: string): Promise<void> {
+    if (!this.dedupStore || !nonce) {
+      return;
+    }
+
+    try {
+      await this.dedupStore.add(nonce);
+    } catch (error) {
+      this.logger.warn('Dedup store add failed:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * 删除处理成功的事件之前的死信（失败后被服务端重新投递并处理成功）
+   */
+  private async removeDeadLetter(nonce: string): Promise<void> {
+    if (!this.deadLetterSink || !nonce) {
+      return;
+    }
+
+    try {
+      await this.deadLetterSink.remove([nonce]);
+    } catch (error) {
+      this.logger.warn(
+        'Remove dead letter failed:',
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  /**
+   * 调用处理器，失败时按重试策略在进程内重试
+   * @returns 最后一次处理的错误（成功时为 null）和累计处理次数
+   */
+  private async handleWithRetry(
+    event: Event,
+    ackControl: ManualAck | null = null
+  ): Promise<{ error: Error | null; attempts: number }> {
+    const maxAttempts = this.retryConfig?.maxAttempts ?? 1;
+
+    for (let attempt = 1; ; attempt++) {
+      const controller = new AbortController();
+      try {
+        await this.invokeHandler(event, attempt, ackControl, controller);
+        return { error: null, attempts: attempt };
+      } catch (error) {
+        const handleError = toError(error);
+        if (
+          !this.retryConfig ||
+          attempt >= maxAttempts ||
+          !this.shouldRetry(controller.signal) ||
+          !this.retryConfig.retryable(handleError, attempt)
+        ) {
+          return { error: handleError, attempts: attempt };
+        }
+
+        const waitTime = calculateBackoff(this.retryConfig, attempt);
+        this.logger.warn(
+          `Handle event failed, retry in ${waitTime}ms: event_code=${event.eventCode}, attempt=${attempt}, error=${handleError.message}`
+        );
+        try {
+          await delay(waitTime, this.abortController?.signal);
+        } catch {
+          // 等待期间客户端被停止
+          return { error: handleError, attempts: attempt };
+        }
+        if (!this.shouldRetry(controller.signal)) {
+          return { error: handleError, attempts: attempt };
+        }
+      }
+    }
+  }
+
+  /**
+   * 是否继续重试：客户端已停止或处理被取消时不再重试
+   */
+  private shouldRetry(signal: AbortSignal): boolean {
+    return this.state.connectionState !== ConnectionState.Closed && !signal.aborted;
+  }
+
+  /**
+   * 调用处理器，超时后通过 signal 通知处理器取消并抛出 HandlerTimeoutError
+   */
+  private async invokeHandler(
+    event: Event,
+    attempt = 1,
+    ackControl: ManualAck | null = null,
+    controller = new AbortController()
+  ): Promise<void> {
+    // 先选出处理器并确定超时：过滤条件出错时直接失败，不会留下未处理的 handling
+    const timeout = this.dispatcher?.getHandlerTimeout(event) ?? this.handlerTimeout;
+
+    this.inflightHandlers.add(controller);
+    const context: HandlerContext = ackControl
+      ? { signal: controller.signal, attempt, ackControl }
+      : { signal: controller.signal, attempt };
+
+    const handling = Promise.resolve()
+      .then(() =>
+        this.dispatcher
+          ? this.dispatcher.handle(event, context)
+          : this.handler && settleHandlerResult(this.handler.handle(event, context))
+      )
+      .finally(() => this.inflightHandlers.delete(controller));
+
+    if (!(timeout > 0)) {
+      await handling;
+      return;
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeoutPromise = new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(() => {
+        const error = new HandlerTimeoutError(timeout);
+        this.logger.warn(`Handler timeout after ${timeout}ms: event_code=${event.eventCode}`);
+        controller.abort(error);
+        reject(error);
+      }, timeout);
+    });
+
+    try {
+      await Promise.race([handling, timeoutPromise]);
+    } finally {
+      clearTimeout(timer);
     }
   }
 
@@ -474,6 +1345,13 @@ export class Client {
    * 发送 ACK 消息
    */
   private sendAck(nonce: string, error: Error | null): void {
+    this.sendAckMessage(nonce, error ? ackCodeOf(error) : AckCode.SUCCESS, error?.message);
+  }
+
+  /**
+   * 发送指定状态码的 ACK 消息
+   */
+  private sendAckMessage(nonce: string, code: number, msg?: string): void {
     if (!nonce) {
       this.logger.warn('ACK mode enabled but event nonce is empty, skip sending ack');
       return;
@@ -487,13 +1365,13 @@ export class Client {
     const ack: AckMessage = {
       type: 'ack',
       nonce,
-      code: error ? 500 : 200,
+      code,
     };
 
-    if (error) {
-      let errMsg = error.message;
-      if (errMsg.length > 256) {
-        errMsg = errMsg.slice(0, 256) + '...';
+    if (msg) {
+      let errMsg = msg;
+      if (errMsg.length > ACK_MSG_MAX_LENGTH) {
+        errMsg = errMsg.slice(0, ACK_MSG_MAX_LENGTH) + '...';
       }
       ack.msg = errMsg;
     }
@@ -501,11 +1379,13 @@ export class Client {
     try {
       this.ws.send(JSON.stringify(ack));
       this.logger.debug(`ACK sent, nonce: ${nonce}, code: ${ack.code}`);
+      this.emit('ackSent', ack);
     } catch (sendError) {
       this.logger.error(
         'Send ACK failed:',
         sendError instanceof Error ? sendError.message : sendError
       );
+      this.emitError(toError(sendError));
     }
   }
 
@@ -521,6 +1401,7 @@ export class Client {
 
     // 标记已收到 GoAway
     this.state.receivedGoAway = true;
+    this.emit('goaway', msg);
 
     // 如果是连接被替换，不重连
     if (msg.reason === GoAwayReason.CONNECTION_REPLACED) {
@@ -535,6 +1416,24 @@ export class Client {
     }
   }
 
+  /**
+   * 上报被丢弃的事件
+   */
+  private dropEvent(info: EventDroppedInfo): void {
+    this.droppedCount++;
+    this.emit('eventDropped', info);
+  }
+
+  /**
+   * 触发 error 事件
+   * 没有监听器时不触发，避免 EventEmitter 抛出未处理的 error
+   */
+  private emitError(error: unknown): void {
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', toError(error));
+    }
+  }
+
   /**
    * 解析连接错误
    */
@@ -579,3 +1478,39 @@ export class Client {
     }
   }
 }
+
+/**
+ * 将未知异常转换为 Error
+ */
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * 计算密钥指纹（固定标签的 HMAC 前 8 位），用于在日志中区分密钥
+ * 不能使用 md5(secret)：它是事件解密的 AES 密钥
+ */
+function secretFingerprint(secret: string): string {
+  return hmacSha256Hex('open-event-sdk secret fingerprint', secret).slice(0, 8);
+}
+
+/**
+ * 获取处理错误对应的 ACK 状态码
+ * AckError、HandlerAggregateError 使用其指定的状态码，其他错误为 AckCode.FAILED
+ */
+function ackCodeOf(error: Error): number {
+  return error instanceof AckError || error instanceof HandlerAggregateError
+    ? error.code
+    : AckCode.FAILED;
+}
+
+/**
+ * 默认的重试判断：处理超时和 AckError 不重试；
+ * 多个处理器失败时，任一错误可重试即重试
+ */
+function isRetryableError(error: Error): boolean {
+  if (error instanceof HandlerAggregateError) {
+    return error.errors.some(isRetryableError);
+  }
+  return !(error instanceof HandlerTimeoutError || error instanceof AckError);
+}
@@ -8,13 +8,23 @@ export {
   sha256Hex,
   md5,
   signForWebSocket,
+  signKso1,
+  verifyKso1,
   verifySignature,
+  buildSignatureContent,
 } from './signature';
 export type {
   SignForWebSocketParams,
   SignForWebSocketResult,
+  Kso1Headers,
+  SignKso1Params,
+  Kso1Request,
+  VerifyKso1Options,
   VerifySignatureParams,
 } from './signature';
 
 export { decrypt, encryptForTest } from './decrypt';
 export type { DecryptParams } from './decrypt';
+
+export { checkEventTime } from './replay';
+export type { CheckEventTimeParams } from './replay';
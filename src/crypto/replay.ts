@@ -0,0 +1,41 @@
+/**
+ * 重放窗口检查
+ */
+
+import { ReplayError } from '../errors';
+
+/**
+ * 重放窗口检查参数
+ */
+export interface CheckEventTimeParams {
+  /** 事件时间戳（秒），即 EventMessage.time */
+  time: number;
+  /** 允许的最大事件年龄（毫秒） */
+  maxEventAge: number;
+  /** 允许的时钟偏差（毫秒） */
+  clockSkew?: number;
+  /** 当前时间（毫秒），默认 Date.now() */
+  now?: number;
+}
+
+/**
+ * 检查事件时间是否在允许的时间窗口内
+ *
+ * 有效窗口：[now - maxEventAge - clockSkew, now + clockSkew]
+ * 事件时间参与签名计算，应在签名验证通过后调用；配合 nonce 去重可防止事件重放。
+ *
+ * @param params 检查参数
+ * @throws {ReplayError} 事件过旧或来自未来
+ */
+export function checkEventTime(params: CheckEventTimeParams): void {
+  const { time, maxEventAge, clockSkew = 0, now = Date.now() } = params;
+  const eventTimeMs = time * 1000;
+
+  if (eventTimeMs > now + clockSkew) {
+    throw new ReplayError(time, 'future');
+  }
+
+  if (now - eventTimeMs > maxEventAge + clockSkew) {
+    throw new ReplayError(time, 'stale');
+  }
+}
@@ -3,6 +3,7 @@
  */
 
 import crypto from 'node:crypto';
+import { SignatureError } from '../errors';
 
 /**
  * 计算 HMAC-SHA256 签名
@@ -41,32 +42,43 @@ export function md5(data: string): string {
 }
 
 /**
- * WebSocket 握手签名参数
+ * KSO-1 签名类型标识
  */
-export interface SignForWebSocketParams {
-  appId: string;
-  appSecret: string;
-  uri: string;
-}
+const KSO1_TYPE = 'KSO-1';
 
 /**
- * WebSocket 握手签名结果
+ * KSO-1 签名 Headers
  */
-export interface SignForWebSocketResult {
+export interface Kso1Headers {
   'X-Kso-Date': string;
   'X-Kso-Authorization': string;
 }
 
 /**
- * KSO-1 签名类型标识
+ * KSO-1 请求签名参数
  */
-const KSO1_TYPE = 'KSO-1';
+export interface SignKso1Params {
+  /** 应用 ID */
+  appId: string;
+  /** 应用密钥 */
+  appSecret: string;
+  /** 请求方法，如 GET、POST */
+  method: string;
+  /** 请求 URI（path + query） */
+  uri: string;
+  /** Content-Type 请求头，无 body 时为空 */
+  contentType?: string;
+  /** 请求 body，为空时不计算哈希 */
+  body?: string | Buffer;
+  /** 请求时间，默认当前时间 */
+  date?: Date | string;
+}
 
 /**
- * 为 WebSocket 握手生成 KSO-1 签名
+ * 为 HTTP 请求生成 KSO-1 签名
  *
  * 签名算法（与 Go 版本一致）：
- * 1. 计算 body 的 SHA256（WebSocket 握手无 body，为空字符串）
+ * 1. 计算 body 的 SHA256（hex 编码），body 为空时为空字符串
  * 2. 构建待签名字符串：KSO-1 + method + uri + contentType + date + sha256(body)
  * 3. 使用 HMAC-SHA256(appSecret, stringToSign) 计算签名
  * 4. 签名使用 hex 编码
@@ -75,23 +87,20 @@ const KSO1_TYPE = 'KSO-1';
  * @param params 签名参数
  * @returns 签名 Headers
  */
-export function signForWebSocket(params: SignForWebSocketParams): SignForWebSocketResult {
-  const { appId, appSecret, uri } = params;
+export function signKso1(params: SignKso1Params): Kso1Headers {
+  const { appId, appSecret } = params;
 
   // HTTP TimeFormat: Mon, 02 Jan 2006 15:04:05 GMT
-  const now = new Date();
-  const dateStr = now.toUTCString();
-
-  // WebSocket 握手无 body 和 contentType
-  const method = 'GET';
-  const contentType = '';
-  const sha256Body = ''; // body 为空时，sha256 为空字符串
+  const date = params.date ?? new Date();
+  const dateStr = typeof date === 'string' ? date : date.toUTCString();
 
-  // 构建待签名字符串：KSO-1 + method + uri + contentType + date + sha256(body)
-  const stringToSign = KSO1_TYPE + method + uri + contentType + dateStr + sha256Body;
-
-  // 使用 HMAC-SHA256 计算签名，返回 hex 编码
-  const signature = hmacSha256Hex(stringToSign, appSecret);
+  const signature = computeKso1Signature(appSecret, {
+    method: params.method,
+    uri: params.uri,
+    contentType: params.contentType,
+    body: params.body,
+    date: dateStr,
+  });
 
   return {
     'X-Kso-Date': dateStr,
@@ -99,6 +108,138 @@ export function signForWebSocket(params: SignForWebSocketParams): SignForWebSock
   };
 }
 
+/**
+ * KSO-1 待验证请求
+ */
+export interface Kso1Request {
+  /** 请求方法 */
+  method: string;
+  /** 请求 URI（path + query） */
+  uri: string;
+  /** Content-Type 请求头 */
+  contentType?: string;
+  /** 请求 body */
+  body?: string | Buffer;
+}
+
+/**
+ * KSO-1 签名验证选项
+ */
+export interface VerifyKso1Options {
+  /** 应用密钥，或按应用 ID 查找密钥（找不到时返回 undefined） */
+  appSecret: string | ((appId: string) => string | undefined);
+  /**
+   * 允许的 X-Kso-Date 时钟偏差（毫秒）
+   * @default 300000
+   */
+  clockSkew?: number;
+  /** 当前时间（毫秒），默认 Date.now() */
+  now?: number;
+}
+
+/**
+ * 验证 KSO-1 签名的 HTTP 请求
+ *
+ * @param headers 请求头（名称不区分大小写，如 IncomingMessage.headers）
+ * @param request 请求信息
+ * @param options 验证选项
+ * @returns 请求方的应用 ID
+ * @throws {SignatureError} 签名缺失、格式错误、时间超出允许偏差或签名不匹配
+ */
+export function verifyKso1(
+  headers: Record<string, string | string[] | undefined>,
+  request: Kso1Request,
+  options: VerifyKso1Options
+): string {
+  const authorization = getHeader(headers, 'x-kso-authorization');
+  const date = getHeader(headers, 'x-kso-date');
+  if (!authorization || !date) {
+    throw new SignatureError('Missing X-Kso-Authorization or X-Kso-Date');
+  }
+
+  const match = /^KSO-1 ([^:]+):([0-9a-f]+)$/.exec(authorization);
+  if (!match?.[1] || !match[2]) {
+    throw new SignatureError('Invalid X-Kso-Authorization');
+  }
+  const appId = match[1];
+  const signature = match[2];
+
+  const appSecret =
+    typeof options.appSecret === 'function' ? options.appSecret(appId) : options.appSecret;
+  if (!appSecret) {
+    throw new SignatureError(`Unknown app id: ${appId}`);
+  }
+
+  const clockSkew = options.clockSkew ?? 300000;
+  const now = options.now ?? Date.now();
+  const dateMs = Date.parse(date);
+  if (Number.isNaN(dateMs) || Math.abs(now - dateMs) > clockSkew) {
+    throw new SignatureError(`X-Kso-Date out of range: ${date}`);
+  }
+
+  const expected = computeKso1Signature(appSecret, { ...request, date });
+  if (
+    expected.length !== signature.length ||
+    !crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature))
+  ) {
+    throw new SignatureError();
+  }
+
+  return appId;
+}
+
+/**
+ * 计算 KSO-1 签名（hex 编码）
+ */
+function computeKso1Signature(appSecret: string, request: Kso1Request & { date: string }): string {
+  const { method, uri, contentType = '', body, date } = request;
+  const sha256Body = body && body.length > 0 ? sha256Hex(body) : '';
+
+  // 构建待签名字符串：KSO-1 + method + uri + contentType + date + sha256(body)
+  const stringToSign = KSO1_TYPE + method + uri + contentType + date + sha256Body;
+
+  // 使用 HMAC-SHA256 计算签名，返回 hex 编码
+  return hmacSha256Hex(stringToSign, appSecret);
+}
+
+/**
+ * 获取请求头（名称不区分大小写，多值时取第一个）
+ */
+function getHeader(
+  headers: Record<string, string | string[] | undefined>,
+  name: string
+): string | undefined {
+  const key = Object.keys(headers).find((key) => key.toLowerCase() === name);
+  const value = key === undefined ? undefined : headers[key];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * WebSocket 握手签名参数
+ */
+export interface SignForWebSocketParams {
+  appId: string;
+  appSecret: string;
+  uri: string;
+}
+
+/**
+ * WebSocket 握手签名结果
+ */
+export type SignForWebSocketResult = Kso1Headers;
+
+/**
+ * 为 WebSocket 握手生成 KSO-1 签名
+ *
+ * WebSocket 握手为 GET 请求，无 body 和 contentType，签名算法见 signKso1。
+ *
+ * @param params 签名参数
+ * @returns 签名 Headers
+ */
+export function signForWebSocket(params: SignForWebSocketParams): SignForWebSocketResult {
+  return signKso1({ ...params, method: 'GET' });
+}
+
 /**
  * 签名验证参数
  */
@@ -119,6 +260,18 @@ export interface VerifySignatureParams {
   signature: string;
 }
 
+/**
+ * 构建消息签名原文：access_key:topic:nonce:time:encrypted_data
+ * @param params 签名参数（secretKey 和 signature 不参与）
+ * @returns 签名原文
+ */
+export function buildSignatureContent(
+  params: Pick<VerifySignatureParams, 'accessKey' | 'topic' | 'nonce' | 'time' | 'encryptedData'>
+): string {
+  const { accessKey, topic, nonce, time, encryptedData } = params;
+  return `${accessKey}:${topic}:${nonce}:${time}:${encryptedData}`;
+}
+
 /**
  * 验证消息签名
  *
@@ -131,10 +284,10 @@ export interface VerifySignatureParams {
  * @returns 签名是否有效
  */
 export function verifySignature(params: VerifySignatureParams): boolean {
-  const { accessKey, secretKey, topic, nonce, time, encryptedData, signature } = params;
+  const { secretKey, signature } = params;
 
   // 构建签名原文
-  const content = `${accessKey}:${topic}:${nonce}:${time}:${encryptedData}`;
+  const content = buildSignatureContent(params);
 
   // 计算期望签名
   const expectedSignature = hmacSha256(content, secretKey);
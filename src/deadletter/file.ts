@@ -0,0 +1,88 @@
+/**
+ * JSONL 文件死信存储
+ */
+
+import { appendFile, readFile, writeFile, rename } from 'node:fs/promises';
+import type { DeadLetter, DeadLetterSink } from './sink';
+
+/**
+ * 文件死信存储选项
+ */
+export interface FileDeadLetterSinkOptions {
+  /** 存储文件路径（JSONL 格式） */
+  path: string;
+}
+
+/**
+ * JSONL 文件死信存储
+ *
+ * 写入时追加一行，读取时相同 ID 以最后一行为准；删除时重写文件。
+ */
+export class FileDeadLetterSink implements DeadLetterSink {
+  private readonly path: string;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(options: FileDeadLetterSinkOptions) {
+    this.path = options.path;
+  }
+
+  put(letter: DeadLetter): Promise<void> {
+    return this.serialize(() => appendFile(this.path, JSON.stringify(letter) + '\n', 'utf-8'));
+  }
+
+  list(): Promise<DeadLetter[]> {
+    return this.serialize(() => this.readLetters());
+  }
+
+  remove(ids: string[]): Promise<void> {
+    const removed = new Set(ids);
+    return this.serialize(async () => {
+      const letters = (await this.readLetters()).filter((letter) => !removed.has(letter.id));
+      const tmpPath = `${this.path}.tmp`;
+      await writeFile(tmpPath, letters.map((letter) => JSON.stringify(letter) + '\n').join(''));
+      await rename(tmpPath, this.path);
+    });
+  }
+
+  /**
+   * 读取文件中的死信，相同 ID 以最后一行为准
+   */
+  private async readLetters(): Promise<DeadLetter[]> {
+    let content: string;
+    try {
+      content = await readFile(this.path, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const letters = new Map<string, DeadLetter>();
+    for (const line of content.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        const letter = JSON.parse(line) as DeadLetter;
+        letters.delete(letter.id);
+        letters.set(letter.id, letter);
+      } catch {
+        // 忽略损坏的行（如进程崩溃时写了一半）
+      }
+    }
+    return Array.from(letters.values());
+  }
+
+  /**
+   * 串行执行文件操作
+   */
+  private serialize<T>(operation: () => Promise<T>): Promise<T> {
+    const next = this.pending.then(operation);
+    this.pending = next.then(
+      () => undefined,
+      () => undefined
+    );
+    return next;
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * 死信模块导出
+ */
+
+export { matchDeadLetter } from './sink';
+export type { DeadLetter, DeadLetterError, DeadLetterSink, DeadLetterFilter } from './sink';
+export { FileDeadLetterSink } from './file';
+export type { FileDeadLetterSinkOptions } from './file';
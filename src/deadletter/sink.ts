@@ -0,0 +1,96 @@
+/**
+ * 死信存储接口定义
+ */
+
+import type { Event } from '../event/event';
+
+/**
+ * 死信（处理失败的事件）
+ */
+export interface DeadLetter {
+  /** 死信 ID（事件 nonce，nonce 为空时为随机 ID） */
+  id: string;
+  /** 事件 nonce */
+  nonce: string;
+  /** 解密后的事件 */
+  event: Event;
+  /** 最后一次处理失败的错误 */
+  error: DeadLetterError;
+  /** 累计处理次数 */
+  attempts: number;
+  /** 最后一次处理失败的时间（毫秒时间戳） */
+  failedAt: number;
+}
+
+/**
+ * 死信中记录的错误信息
+ */
+export interface DeadLetterError {
+  name: string;
+  message: string;
+}
+
+/**
+ * 死信存储
+ */
+export interface DeadLetterSink {
+  /**
+   * 写入死信，相同 ID 的死信会被覆盖
+   * @param letter 死信
+   */
+  put(letter: DeadLetter): Promise<void> | void;
+
+  /**
+   * 返回所有死信
+   */
+  list(): Promise<DeadLetter[]> | DeadLetter[];
+
+  /**
+   * 删除死信
+   * @param ids 死信 ID 列表
+   */
+  remove(ids: string[]): Promise<void> | void;
+}
+
+/**
+ * 死信过滤条件
+ * 对象形式的各条件之间为“且”关系；也可以传入自定义过滤函数
+ */
+export type DeadLetterFilter =
+  | {
+      /** 事件编码 */
+      eventCode?: string;
+      /** 事件 nonce */
+      nonce?: string;
+      /** 失败时间不早于（毫秒时间戳） */
+      failedAfter?: number;
+      /** 失败时间早于（毫秒时间戳） */
+      failedBefore?: number;
+    }
+  | ((letter: DeadLetter) => boolean);
+
+/**
+ * 检查死信是否满足过滤条件
+ * @param letter 死信
+ * @param filter 过滤条件
+ */
+export function matchDeadLetter(letter: DeadLetter, filter: DeadLetterFilter = {}): boolean {
+  if (typeof filter === 'function') {
+    return filter(letter);
+  }
+
+  const { eventCode, nonce, failedAfter, failedBefore } = filter;
+  if (eventCode !== undefined && letter.event.eventCode !== eventCode) {
+    return false;
+  }
+  if (nonce !== undefined && letter.nonce !== nonce) {
+    return false;
+  }
+  if (failedAfter !== undefined && letter.failedAt < failedAfter) {
+    return false;
+  }
+  if (failedBefore !== undefined && letter.failedAt >= failedBefore) {
+    return false;
+  }
+  return true;
+}
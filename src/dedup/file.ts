@@ -0,0 +1,126 @@
+/**
+ * 文件去重存储
+ */
+
+import { appendFile, readFile, writeFile, rename } from 'node:fs/promises';
+import { NonceCache } from './memory';
+import type { MemoryDedupStoreOptions } from './memory';
+import type { DedupStore } from './store';
+
+/**
+ * 文件去重存储选项
+ */
+export interface FileDedupStoreOptions extends MemoryDedupStoreOptions {
+  /** 存储文件路径（JSONL 格式） */
+  path: string;
+}
+
+/**
+ * 文件中的一条去重记录
+ */
+interface FileDedupRecord {
+  nonce: string;
+  time: number;
+}
+
+/**
+ * 文件去重存储
+ *
+ * 在内存 LRU + TTL 记录的基础上，将记录追加写入 JSONL 文件，进程重启后可恢复。
+ * 文件行数超过 maxSize 的 2 倍时，会重写文件只保留未过期的记录。
+ */
+export class FileDedupStore implements DedupStore {
+  private readonly cache: NonceCache;
+  private readonly path: string;
+  private readonly compactThreshold: number;
+  private loading: Promise<void> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+  private lines = 0;
+
+  constructor(options: FileDedupStoreOptions) {
+    this.cache = new NonceCache(options);
+    this.path = options.path;
+    this.compactThreshold = (options.maxSize ?? 10000) * 2;
+  }
+
+  /**
+   * 当前记录数
+   */
+  get size(): number {
+    return this.cache.size;
+  }
+
+  async has(nonce: string): Promise<boolean> {
+    await this.load();
+    return this.cache.has(nonce);
+  }
+
+  async add(nonce: string): Promise<void> {
+    await this.load();
+    const time = Date.now();
+    this.cache.set(nonce, time);
+    this.lines++;
+
+    const line = JSON.stringify({ nonce, time } satisfies FileDedupRecord) + '\n';
+    await this.enqueueWrite(() =>
+      this.lines > this.compactThreshold ? this.compact() : appendFile(this.path, line, 'utf-8')
+    );
+  }
+
+  /**
+   * 从文件加载记录（只加载一次）
+   */
+  private load(): Promise<void> {
+    this.loading ??= this.readRecords();
+    return this.loading;
+  }
+
+  /**
+   * 读取文件中的记录
+   */
+  private async readRecords(): Promise<void> {
+    let content: string;
+    try {
+      content = await readFile(this.path, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    for (const line of content.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        const { nonce, time } = JSON.parse(line) as FileDedupRecord;
+        this.cache.set(nonce, time);
+        this.lines++;
+      } catch {
+        // 忽略损坏的行（如进程崩溃时写了一半）
+      }
+    }
+  }
+
+  /**
+   * 重写文件，只保留未过期的记录
+   */
+  private async compact(): Promise<void> {
+    const records = this.cache.snapshot();
+    const content = records.map(([nonce, time]) => JSON.stringify({ nonce, time }) + '\n');
+    const tmpPath = `${this.path}.tmp`;
+    await writeFile(tmpPath, content.join(''), 'utf-8');
+    await rename(tmpPath, this.path);
+    this.lines = records.length;
+  }
+
+  /**
+   * 串行执行文件写入
+   */
+  private enqueueWrite(write: () => Promise<void>): Promise<void> {
+    const next = this.writing.then(write);
+    this.writing = next.catch(() => undefined);
+    return next;
+  }
+}
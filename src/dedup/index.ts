@@ -0,0 +1,9 @@
+/**
+ * 去重模块导出
+ */
+
+export type { DedupStore } from './store';
+export { MemoryDedupStore } from './memory';
+export type { MemoryDedupStoreOptions } from './memory';
+export { FileDedupStore } from './file';
+export type { FileDedupStoreOptions } from './file';
@@ -0,0 +1,125 @@
+/**
+ * 内存去重存储（LRU + TTL）
+ */
+
+import type { DedupStore } from './store';
+
+/**
+ * 内存去重存储选项
+ */
+export interface MemoryDedupStoreOptions {
+  /**
+   * 最多保留的 nonce 数量，超出后淘汰最久未访问的记录
+   * @default 10000
+   */
+  maxSize?: number;
+
+  /**
+   * 记录有效期（毫秒）
+   * @default 600000
+   */
+  ttl?: number;
+}
+
+/**
+ * LRU + TTL 记录集合
+ */
+export class NonceCache {
+  private readonly maxSize: number;
+  private readonly ttl: number;
+  // nonce -> 记录时间（毫秒），Map 的插入顺序即 LRU 顺序
+  private readonly entries: Map<string, number> = new Map();
+
+  constructor(options: MemoryDedupStoreOptions = {}) {
+    this.maxSize = options.maxSize ?? 10000;
+    this.ttl = options.ttl ?? 600000;
+  }
+
+  /**
+   * 当前记录数
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * 检查 nonce 是否存在且未过期，命中时刷新 LRU 顺序
+   */
+  has(nonce: string): boolean {
+    const addedAt = this.entries.get(nonce);
+    if (addedAt === undefined) {
+      return false;
+    }
+
+    if (this.isExpired(addedAt)) {
+      this.entries.delete(nonce);
+      return false;
+    }
+
+    this.entries.delete(nonce);
+    this.entries.set(nonce, addedAt);
+    return true;
+  }
+
+  /**
+   * 写入记录并淘汰超出容量的旧记录
+   * @param nonce 事件 nonce
+   * @param addedAt 记录时间（毫秒）
+   */
+  set(nonce: string, addedAt: number): void {
+    if (this.isExpired(addedAt)) {
+      return;
+    }
+
+    this.entries.delete(nonce);
+    this.entries.set(nonce, addedAt);
+
+    while (this.entries.size > this.maxSize) {
+      const oldest = this.entries.keys().next();
+      if (oldest.done) {
+        break;
+      }
+      this.entries.delete(oldest.value);
+    }
+  }
+
+  /**
+   * 返回所有未过期的记录
+   */
+  snapshot(): Array<[string, number]> {
+    return Array.from(this.entries).filter(([, addedAt]) => !this.isExpired(addedAt));
+  }
+
+  /**
+   * 检查记录是否过期
+   */
+  private isExpired(addedAt: number): boolean {
+    return Date.now() - addedAt > this.ttl;
+  }
+}
+
+/**
+ * 内存去重存储（LRU + TTL）
+ */
+export class MemoryDedupStore implements DedupStore {
+  private readonly cache: NonceCache;
+
+  constructor(options: MemoryDedupStoreOptions = {}) {
+    this.cache = new NonceCache(options);
+  }
+
+  /**
+   * 当前记录数
+   */
+  get size(): number {
+    return this.cache.size;
+  }
+
+  has(nonce: string): boolean {
+    return this.cache.has(nonce);
+  }
+
+  add(nonce: string): void {
+    this.cache.set(nonce, Date.now());
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * 去重存储接口定义
+ */
+
+/**
+ * 事件去重存储
+ * 以事件 nonce 为 key 记录已成功处理的事件，用于识别服务端重复投递的事件
+ */
+export interface DedupStore {
+  /**
+   * 检查 nonce 是否已处理
+   * @param nonce 事件 nonce
+   */
+  has(nonce: string): Promise<boolean> | boolean;
+
+  /**
+   * 记录已处理的 nonce
+   * @param nonce 事件 nonce
+   */
+  add(nonce: string): Promise<void> | void;
+}
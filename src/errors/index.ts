@@ -2,6 +2,8 @@
  * 错误类型定义
  */
 
+import { AckCode } from '../protocol/messages';
+
 /**
  * 基础错误类
  */
@@ -82,6 +84,26 @@ export class HandlerNotSetError extends OpenEventError {
   }
 }
 
+/**
+ * 死信存储未设置错误
+ */
+export class DeadLetterSinkNotSetError extends OpenEventError {
+  constructor() {
+    super('Dead letter sink not set');
+    this.name = 'DeadLetterSinkNotSetError';
+  }
+}
+
+/**
+ * OpenAPI 客户端未设置错误
+ */
+export class ApiClientNotSetError extends OpenEventError {
+  constructor() {
+    super('API client not set');
+    this.name = 'ApiClientNotSetError';
+  }
+}
+
 /**
  * 重连超过最大次数错误
  */
@@ -111,3 +133,139 @@ export class AlreadyConnectedError extends OpenEventError {
     this.name = 'AlreadyConnectedError';
   }
 }
+
+/**
+ * ACK 错误
+ * 处理器抛出或返回该错误时，SDK 使用其 code 和 message 作为 ACK 的状态码和错误信息
+ *
+ * @example
+ * ```typescript
+ * // 永久拒绝，服务端不再重新投递
+ * throw AckError.reject('unsupported message type');
+ *
+ * // 稍后重试
+ * throw AckError.retryLater('database unavailable');
+ * ```
+ */
+export class AckError extends OpenEventError {
+  /** ACK 状态码 */
+  readonly code: number;
+
+  constructor(code: number, message: string) {
+    super(message);
+    this.name = 'AckError';
+    this.code = code;
+  }
+
+  /**
+   * 永久拒绝（code=400）
+   */
+  static reject(message: string): AckError {
+    return new AckError(AckCode.REJECTED, message);
+  }
+
+  /**
+   * 稍后重试（code=503）
+   */
+  static retryLater(message: string): AckError {
+    return new AckError(AckCode.RETRY_LATER, message);
+  }
+}
+
+/**
+ * 多个处理器处理失败错误
+ * 同一事件编码注册了多个处理器且其中多个失败时，Dispatcher 抛出该错误汇总所有失败
+ *
+ * ACK 状态码：所有失败均为相同状态码的 AckError 时使用该状态码，否则为 AckCode.FAILED
+ */
+export class HandlerAggregateError extends OpenEventError {
+  /** 各处理器抛出的错误（按处理器优先级排列） */
+  readonly errors: Error[];
+  /** ACK 状态码 */
+  readonly code: number;
+
+  constructor(errors: Error[]) {
+    super(`${errors.length} handlers failed: ${errors.map((error) => error.message).join('; ')}`);
+    this.name = 'HandlerAggregateError';
+    this.errors = errors;
+
+    const [first] = errors;
+    const sameCode =
+      first instanceof AckError &&
+      errors.every((error) => error instanceof AckError && error.code === first.code);
+    this.code = sameCode ? first.code : AckCode.FAILED;
+  }
+}
+
+/**
+ * 事件处理超时错误
+ */
+export class HandlerTimeoutError extends OpenEventError {
+  readonly timeout: number;
+
+  constructor(timeout: number) {
+    super('handler timeout');
+    this.name = 'HandlerTimeoutError';
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * 重放攻击错误
+ * 事件时间超出允许的时间窗口（过旧或来自未来）
+ */
+export class ReplayError extends OpenEventError {
+  /** 事件时间（秒） */
+  readonly eventTime: number;
+  /** 拒绝原因 */
+  readonly reason: 'stale' | 'future';
+
+  constructor(eventTime: number, reason: 'stale' | 'future') {
+    super(
+      reason === 'stale'
+        ? `Event is too old: time=${eventTime}`
+        : `Event time is in the future: time=${eventTime}`
+    );
+    this.name = 'ReplayError';
+    this.eventTime = eventTime;
+    this.reason = reason;
+  }
+}
+
+/**
+ * 密钥提供者错误（调用失败或未返回密钥，不重试）
+ */
+export class SecretProviderError extends ClientError {
+  constructor(message: string) {
+    super(0, message);
+    this.name = 'SecretProviderError';
+  }
+}
+
+/**
+ * OpenAPI 客户端错误（4xx 或业务错误码非 0，不重试）
+ */
+export class ApiClientError extends ClientError {
+  /** 业务错误码（响应体中的 code），无法解析时为 -1 */
+  readonly code: number;
+
+  constructor(statusCode: number, code: number, message: string) {
+    super(statusCode, message);
+    this.name = 'ApiClientError';
+    this.code = code;
+  }
+}
+
+/**
+ * OpenAPI 服务端错误（5xx、429 或网络错误，可重试）
+ */
+export class ApiServerError extends ServerError {
+  /** 业务错误码（响应体中的 code），无法解析时为 -1 */
+  readonly code: number;
+
+  constructor(statusCode: number, code: number, message: string) {
+    super(statusCode, message);
+    this.name = 'ApiServerError';
+    this.code = code;
+  }
+}
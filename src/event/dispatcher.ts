@@ -4,8 +4,23 @@
 
 import type { Event, TypedEvent } from './event';
 import { createTypedEvent } from './event';
-import type { Handler, HandlerFunc } from './handler';
-import { FuncHandler } from './handler';
+import type { Handler, HandlerContext, HandlerFunc, HandlerResult } from './handler';
+import { FuncHandler, settleHandlerResult } from './handler';
+import { createMessageEvent } from './message-event';
+import { composeMiddleware } from './middleware';
+import { createDataFilter, createMessageFilter } from './filter';
+import type { DataFilterOptions, EventFilter, MessageFilterOptions } from './filter';
+import type { Middleware } from './middleware';
+import {
+  compareSpecificity,
+  globToRegExp,
+  isEventCodePattern,
+  patternSpecificity,
+} from './pattern';
+import type { PatternSpecificity } from './pattern';
+import type { MessageEvent } from './message-event';
+import type { MessageSender } from '../api/types';
+import { HandlerAggregateError } from '../errors';
 import { EventCodes } from './model/event-codes';
 import type {
   V7NotificationAppChatMessageCreateData,
@@ -18,23 +33,152 @@ import type {
 /**
  * 类型化处理函数
  */
-export type TypedHandlerFunc<T> = (event: TypedEvent<T>) => Promise<void> | void;
+export type TypedHandlerFunc<T> = (
+  event: TypedEvent<T>,
+  context?: HandlerContext
+) => Promise<HandlerResult> | HandlerResult;
+
+/**
+ * 消息事件处理函数
+ */
+export type MessageHandlerFunc = (
+  event: MessageEvent,
+  context?: HandlerContext
+) => Promise<HandlerResult> | HandlerResult;
+
+/**
+ * 同一事件编码注册多个处理器时的执行方式
+ * - sequential: 按优先级依次执行
+ * - parallel: 同时执行（按优先级依次启动）
+ */
+export type HandlerExecution = 'sequential' | 'parallel';
+
+/**
+ * Dispatcher 配置选项
+ */
+export interface DispatcherOptions {
+  /**
+   * 消息发送接口（如 ApiClient）
+   * 设置后，onV7AppChatMessageCreate 处理器收到的事件可通过 reply() 等方法回复消息
+   */
+  apiClient?: MessageSender;
+
+  /**
+   * 同一事件编码注册多个处理器时的执行方式
+   * @default 'sequential'
+   */
+  execution?: HandlerExecution;
+}
+
+/**
+ * 处理器注册选项
+ */
+export interface RegisterOptions {
+  /**
+   * 处理超时（毫秒），覆盖 ClientOptions.handlerTimeout
+   * 0 表示不限制
+   */
+  timeout?: number;
+
+  /**
+   * 优先级，同一事件编码的多个处理器按优先级从高到低执行，相同优先级按注册顺序执行
+   * @default 0
+   */
+  priority?: number;
+
+  /**
+   * 过滤条件，返回 false 时跳过该处理器
+   * 同一事件编码（或通配符）的处理器都被跳过时，事件交给下一个匹配的通配符或兜底处理器
+   * 同一事件只执行一次（getHandlerTimeout 与分发共享结果）
+   */
+  filter?: EventFilter;
+}
+
+/**
+ * 类型化处理器注册选项
+ */
+export interface TypedRegisterOptions<T> extends RegisterOptions, DataFilterOptions<T> {}
+
+/**
+ * 消息事件处理器注册选项
+ */
+export interface MessageRegisterOptions extends RegisterOptions, MessageFilterOptions {}
+
+/**
+ * 已注册的处理器
+ */
+interface Route {
+  handler: Handler;
+  options: RegisterOptions;
+}
+
+/**
+ * 以通配符注册的处理器
+ */
+interface PatternRoute {
+  pattern: string;
+  regexp: RegExp;
+  specificity: PatternSpecificity;
+  routes: Route[];
+}
+
+/**
+ * 已注册的中间件
+ */
+interface MiddlewareEntry {
+  middleware: Middleware;
+  /** 限定的事件编码匹配函数，全局中间件为空 */
+  matches?: (eventCode: string) => boolean;
+}
 
 /**
  * 事件分发器
  * 支持按事件编码（event_code）注册不同的处理器
+ *
+ * 事件编码可使用通配符：`*` 匹配一段（不含 `.`），`**` 匹配任意多段。
+ * 匹配优先级：精确匹配 > 最具体的通配符（不含通配符的段数多者优先，其次 `**` 少者优先，
+ * 再次先注册者优先）> 兜底处理器
+ *
+ * 同一事件编码（或通配符）可注册多个处理器，全部执行完成后才结束处理，任一处理器失败不影响其他处理器：
+ * 只有一个处理器失败时抛出其错误，多个失败时抛出 HandlerAggregateError。
+ * 处理失败时服务端（或 Client 的重试策略）会重新投递给全部处理器，处理器需要保证幂等
+ *
+ * 注册时可设置过滤条件（RegisterOptions.filter，类型化注册方法还支持 companyId、chatType 等），
+ * 不满足条件的处理器被跳过；同一事件编码的处理器都被跳过时，事件交给下一个匹配的通配符或兜底处理器
  */
 export class Dispatcher implements Handler {
-  private readonly handlers: Map<string, Handler> = new Map();
+  // 每个事件编码的处理器按优先级排列
+  private readonly routes: Map<string, Route[]> = new Map();
+  // 按匹配优先级排列
+  private readonly patternRoutes: PatternRoute[] = [];
+  private readonly middlewares: MiddlewareEntry[] = [];
+  // 每个事件选中的处理器，过滤条件对同一事件只执行一次
+  private readonly selections: WeakMap<Event, Route[] | null> = new WeakMap();
   private fallback?: Handler;
+  private readonly apiClient?: MessageSender;
+  private readonly execution: HandlerExecution;
+
+  constructor(options: DispatcherOptions = {}) {
+    this.apiClient = options.apiClient;
+    this.execution = options.execution ?? 'sequential';
+  }
 
   /**
    * 注册特定事件编码的处理器
-   * @param eventCode 事件编码，由 topic.operation 组成，如 "kso.app_chat.message.create"
+   * 同一事件编码可注册多个处理器，按 options.priority 从高到低执行
+   * @param eventCode 事件编码，由 topic.operation 组成，如 "kso.app_chat.message.create"；
+   *   也可以是通配符，如 "kso.xz.app.group_chat.*"、"kso.xz.app.group_chat.member.**"
    * @param handler 事件处理器
+   * @param options 注册选项
    */
-  register(eventCode: string, handler: Handler): this {
-    this.handlers.set(eventCode, handler);
+  register(eventCode: string, handler: Handler, options: RegisterOptions = {}): this {
+    const route: Route = { handler, options };
+    if (isEventCodePattern(eventCode)) {
+      this.registerPattern(eventCode, route);
+    } else {
+      const routes = this.routes.get(eventCode) ?? [];
+      this.routes.set(eventCode, insertByPriority(routes, route));
+    }
     return this;
   }
 
@@ -42,9 +186,10 @@ export class Dispatcher implements Handler {
    * 注册函数类型的处理器（便捷方法）
    * @param eventCode 事件编码
    * @param fn 处理函数
+   * @param options 注册选项
    */
-  registerFunc(eventCode: string, fn: HandlerFunc): this {
-    return this.register(eventCode, new FuncHandler(fn));
+  registerFunc(eventCode: string, fn: HandlerFunc, options?: RegisterOptions): this {
+    return this.register(eventCode, new FuncHandler(fn), options);
   }
 
   /**
@@ -66,19 +211,67 @@ export class Dispatcher implements Handler {
   }
 
   /**
-   * 分发事件到对应的处理器
+   * 注册中间件
+   * 中间件按注册顺序包裹每次分发（包括兜底处理器和没有匹配处理器的事件）；
+   * 指定事件编码（或通配符）时只对匹配的事件生效，全局中间件与限定中间件按注册顺序执行
+   * @param middleware 中间件
+   */
+  use(middleware: Middleware): this;
+  /**
+   * @param eventCode 事件编码或通配符
+   * @param middleware 中间件
+   */
+  use(eventCode: string, middleware: Middleware): this;
+  use(eventCodeOrMiddleware: string | Middleware, middleware?: Middleware): this {
+    if (typeof eventCodeOrMiddleware === 'function') {
+      this.middlewares.push({ middleware: eventCodeOrMiddleware });
+      return this;
+    }
+
+    if (!middleware) {
+      throw new TypeError('middleware is required');
+    }
+    const eventCode = eventCodeOrMiddleware;
+    if (isEventCodePattern(eventCode)) {
+      const regexp = globToRegExp(eventCode);
+      this.middlewares.push({ middleware, matches: (code) => regexp.test(code) });
+    } else {
+      this.middlewares.push({ middleware, matches: (code) => code === eventCode });
+    }
+    return this;
+  }
+
+  /**
+   * 分发事件到对应的处理器（经过匹配的中间件）
    * @param event 事件
+   * @param context 处理上下文
+   */
+  async dispatch(event: Event, context?: HandlerContext): Promise<void> {
+    const middlewares = this.middlewares
+      .filter((entry) => !entry.matches || entry.matches(event.eventCode))
+      .map((entry) => entry.middleware);
+
+    if (middlewares.length === 0) {
+      return this.route(event, context);
+    }
+    return composeMiddleware(middlewares, (e, c) => this.route(e, c))(event, context);
+  }
+
+  /**
+   * 将事件交给匹配的处理器或兜底处理器
    */
-  async dispatch(event: Event): Promise<void> {
-    const handler = this.handlers.get(event.eventCode);
+  private async route(event: Event, context?: HandlerContext): Promise<void> {
+    const routes = this.selectRoutes(event);
 
-    if (handler) {
-      await handler.handle(event);
+    if (routes) {
+      await this.invokeRoutes(routes, event, context);
       return;
     }
 
     if (this.fallback) {
-      await this.fallback.handle(event);
+      await settleHandlerResult(
+        context ? this.fallback.handle(event, context) : this.fallback.handle(event)
+      );
       return;
     }
 
@@ -88,23 +281,172 @@ export class Dispatcher implements Handler {
   /**
    * 实现 Handler 接口，使 Dispatcher 可以作为 Handler 使用
    */
-  async handle(event: Event): Promise<void> {
-    return this.dispatch(event);
+  async handle(event: Event, context?: HandlerContext): Promise<void> {
+    return this.dispatch(event, context);
   }
 
   /**
-   * 检查是否有处理器注册了指定的事件编码
+   * 检查是否有处理器能处理指定的事件编码（精确匹配或通配符匹配，不包括兜底处理器）
+   * 传入已注册的通配符本身时也返回 true
    * @param eventCode 事件编码
    */
   hasHandler(eventCode: string): boolean {
-    return this.handlers.has(eventCode);
+    return (
+      this.candidateRoutes(eventCode).length > 0 ||
+      this.patternRoutes.some((route) => route.pattern === eventCode)
+    );
   }
 
   /**
-   * 返回所有已注册的事件编码
+   * 返回所有已注册的事件编码，通配符排在精确事件编码之后（按匹配优先级排列）
    */
   getEventCodes(): string[] {
-    return Array.from(this.handlers.keys());
+    return [...this.routes.keys(), ...this.patternRoutes.map((route) => route.pattern)];
+  }
+
+  /**
+   * 获取处理指定事件的处理器注册时设置的处理超时
+   * 多个处理器时：任一处理器不限制（0）则不限制，否则取其中最大的超时
+   * @param event 事件编码，或事件（按处理器的过滤条件选择处理器）
+   * @returns 处理超时（毫秒），均未设置时返回 undefined
+   */
+  getHandlerTimeout(event: string | Event): number | undefined {
+    const routes =
+      typeof event === 'string' ? this.candidateRoutes(event)[0] : this.selectRoutes(event);
+    const timeouts = (routes ?? [])
+      .map((route) => route.options.timeout)
+      .filter((timeout): timeout is number => timeout !== undefined);
+    if (timeouts.length === 0) {
+      return undefined;
+    }
+    return timeouts.includes(0) ? 0 : Math.max(...timeouts);
+  }
+
+  /**
+   * 查找处理事件的处理器：依次尝试精确匹配和按优先级排列的通配符，
+   * 返回第一组通过过滤条件的处理器（同一事件的结果会被缓存）
+   */
+  private selectRoutes(event: Event): Route[] | undefined {
+    const cached = this.selections.get(event);
+    if (cached !== undefined) {
+      return cached ?? undefined;
+    }
+
+    let selected: Route[] | null = null;
+    for (const routes of this.candidateRoutes(event.eventCode)) {
+      const matched = routes.filter((route) => route.options.filter?.(event) ?? true);
+      if (matched.length > 0) {
+        selected = matched;
+        break;
+      }
+    }
+    this.selections.set(event, selected);
+    return selected ?? undefined;
+  }
+
+  /**
+   * 按匹配优先级返回能处理指定事件编码的各组处理器（精确匹配优先，其次是最具体的通配符）
+   */
+  private candidateRoutes(eventCode: string): Route[][] {
+    const candidates = this.patternRoutes
+      .filter((route) => route.regexp.test(eventCode))
+      .map((route) => route.routes);
+    const exact = this.routes.get(eventCode);
+    return exact ? [exact, ...candidates] : candidates;
+  }
+
+  /**
+   * 执行同一事件编码的全部处理器并汇总错误
+   */
+  private async invokeRoutes(
+    routes: Route[],
+    event: Event,
+    context?: HandlerContext
+  ): Promise<void> {
+    const invoke = (route: Route) =>
+      settleHandlerResult(
+        context ? route.handler.handle(event, context) : route.handler.handle(event)
+      );
+
+    const errors: Error[] = [];
+    if (this.execution === 'parallel') {
+      const results = await Promise.allSettled(routes.map(async (route) => invoke(route)));
+      for (const result of results) {
+        if (result.status === 'rejected') {
+          errors.push(toError(result.reason));
+        }
+      }
+    } else {
+      for (const route of routes) {
+        // 处理被取消（如超时）后不再执行后续处理器
+        if (context?.signal.aborted) {
+          break;
+        }
+        try {
+          await invoke(route);
+        } catch (error) {
+          errors.push(toError(error));
+        }
+      }
+    }
+
+    if (errors.length > 1) {
+      throw new HandlerAggregateError(errors);
+    }
+    if (errors[0]) {
+      throw errors[0];
+    }
+  }
+
+  /**
+   * 注册通配符处理器，按匹配优先级插入；同一通配符的多个处理器按优先级排列
+   */
+  private registerPattern(pattern: string, route: Route): void {
+    const existing = this.patternRoutes.find((r) => r.pattern === pattern);
+    if (existing) {
+      existing.routes = insertByPriority(existing.routes, route);
+      return;
+    }
+
+    const patternRoute: PatternRoute = {
+      pattern,
+      regexp: globToRegExp(pattern),
+      specificity: patternSpecificity(pattern),
+      routes: [route],
+    };
+
+    const index = this.patternRoutes.findIndex(
+      (r) => compareSpecificity(patternRoute.specificity, r.specificity) < 0
+    );
+    this.patternRoutes.splice(index < 0 ? this.patternRoutes.length : index, 0, patternRoute);
+  }
+
+  /**
+   * 注册类型化处理器，事件数据解析为 T 类型后调用处理函数
+   * @param eventCode 事件编码
+   * @param fn 类型化处理函数
+   * @param options 注册选项
+   */
+  private registerTyped<T>(
+    eventCode: string,
+    fn: TypedHandlerFunc<T>,
+    options: RegisterOptions = {},
+    predicate?: (data: T) => boolean
+  ): this {
+    const { filter } = options;
+    return this.registerFunc(
+      eventCode,
+      (event, context) => {
+        const typedEvent = createTypedEvent(event, parseEventData<T>(event));
+        return context ? fn(typedEvent, context) : fn(typedEvent);
+      },
+      predicate
+        ? {
+            ...options,
+            filter: (event) => (filter?.(event) ?? true) && matchesData(event, predicate),
+          }
+        : options
+    );
   }
 
   // ================== 类型化事件注册方法 ==================
@@ -112,37 +454,50 @@ export class Dispatcher implements Handler {
   /**
    * 注册用户给应用发送消息事件处理器
    * 事件编码: kso.app_chat.message.create
+   * 处理器收到的事件可通过 reply()、replyQuote()、mentionSender() 回复（需设置 apiClient）
    */
-  onV7AppChatMessageCreate(fn: TypedHandlerFunc<V7NotificationAppChatMessageCreateData>): this {
-    return this.registerFunc(EventCodes.V7_APP_CHAT_MESSAGE_CREATE, (event) => {
-      const parsedData = JSON.parse(event.data) as V7NotificationAppChatMessageCreateData;
-      const typedEvent = createTypedEvent(event, parsedData);
-      return fn(typedEvent);
-    });
+  onV7AppChatMessageCreate(fn: MessageHandlerFunc, options?: MessageRegisterOptions): this {
+    return this.registerTyped<V7NotificationAppChatMessageCreateData>(
+      EventCodes.V7_APP_CHAT_MESSAGE_CREATE,
+      (event, context) => {
+        const messageEvent = createMessageEvent(event, this.apiClient);
+        return context ? fn(messageEvent, context) : fn(messageEvent);
+      },
+      options,
+      createMessageFilter(options)
+    );
   }
 
   /**
    * 注册首次创建会话事件处理器
    * 事件编码: kso.app_chat.create
    */
-  onV7AppChatCreate(fn: TypedHandlerFunc<V7NotificationAppChatCreateData>): this {
-    return this.registerFunc(EventCodes.V7_APP_CHAT_CREATE, (event) => {
-      const parsedData = JSON.parse(event.data) as V7NotificationAppChatCreateData;
-      const typedEvent = createTypedEvent(event, parsedData);
-      return fn(typedEvent);
-    });
+  onV7AppChatCreate(
+    fn: TypedHandlerFunc<V7NotificationAppChatCreateData>,
+    options?: TypedRegisterOptions<V7NotificationAppChatCreateData>
+  ): this {
+    return this.registerTyped(
+      EventCodes.V7_APP_CHAT_CREATE,
+      fn,
+      options,
+      createDataFilter(options)
+    );
   }
 
   /**
    * 注册群聊解散事件处理器
    * 事件编码: kso.xz.app.group_chat.delete
    */
-  onV7AppGroupChatDelete(fn: TypedHandlerFunc<V7NotificationAppGroupChatData>): this {
-    return this.registerFunc(EventCodes.V7_APP_GROUP_CHAT_DELETE, (event) => {
-      const parsedData = JSON.parse(event.data) as V7NotificationAppGroupChatData;
-      const typedEvent = createTypedEvent(event, parsedData);
-      return fn(typedEvent);
-    });
+  onV7AppGroupChatDelete(
+    fn: TypedHandlerFunc<V7NotificationAppGroupChatData>,
+    options?: TypedRegisterOptions<V7NotificationAppGroupChatData>
+  ): this {
+    return this.registerTyped(
+      EventCodes.V7_APP_GROUP_CHAT_DELETE,
+      fn,
+      options,
+      createDataFilter(options)
+    );
   }
 
   /**
@@ -150,13 +505,15 @@ export class Dispatcher implements Handler {
    * 事件编码: kso.xz.app.group_chat.member.user.create
    */
   onV7AppGroupChatMemberUserCreate(
-    fn: TypedHandlerFunc<V7NotificationAppGroupChatMemberUserData>
+    fn: TypedHandlerFunc<V7NotificationAppGroupChatMemberUserData>,
+    options?: TypedRegisterOptions<V7NotificationAppGroupChatMemberUserData>
   ): this {
-    return this.registerFunc(EventCodes.V7_APP_GROUP_CHAT_MEMBER_USER_CREATE, (event) => {
-      const parsedData = JSON.parse(event.data) as V7NotificationAppGroupChatMemberUserData;
-      const typedEvent = createTypedEvent(event, parsedData);
-      return fn(typedEvent);
-    });
+    return this.registerTyped(
+      EventCodes.V7_APP_GROUP_CHAT_MEMBER_USER_CREATE,
+      fn,
+      options,
+      createDataFilter(options)
+    );
   }
 
   /**
@@ -164,13 +521,15 @@ export class Dispatcher implements Handler {
    * 事件编码: kso.xz.app.group_chat.member.user.delete
    */
   onV7AppGroupChatMemberUserDelete(
-    fn: TypedHandlerFunc<V7NotificationAppGroupChatMemberUserData>
+    fn: TypedHandlerFunc<V7NotificationAppGroupChatMemberUserData>,
+    options?: TypedRegisterOptions<V7NotificationAppGroupChatMemberUserData>
   ): this {
-    return this.registerFunc(EventCodes.V7_APP_GROUP_CHAT_MEMBER_USER_DELETE, (event) => {
-      const parsedData = JSON.parse(event.data) as V7NotificationAppGroupChatMemberUserData;
-      const typedEvent = createTypedEvent(event, parsedData);
-      return fn(typedEvent);
-    });
+    return this.registerTyped(
+      EventCodes.V7_APP_GROUP_CHAT_MEMBER_USER_DELETE,
+      fn,
+      options,
+      createDataFilter(options)
+    );
   }
 
   /**
@@ -178,13 +537,15 @@ export class Dispatcher implements Handler {
    * 事件编码: kso.xz.app.group_chat.member.robot.create
    */
   onV7AppGroupChatMemberRobotCreate(
-    fn: TypedHandlerFunc<V7NotificationAppGroupChatMemberRobotData>
+    fn: TypedHandlerFunc<V7NotificationAppGroupChatMemberRobotData>,
+    options?: TypedRegisterOptions<V7NotificationAppGroupChatMemberRobotData>
   ): this {
-    return this.registerFunc(EventCodes.V7_APP_GROUP_CHAT_MEMBER_ROBOT_CREATE, (event) => {
-      const parsedData = JSON.parse(event.data) as V7NotificationAppGroupChatMemberRobotData;
-      const typedEvent = createTypedEvent(event, parsedData);
-      return fn(typedEvent);
-    });
+    return this.registerTyped(
+      EventCodes.V7_APP_GROUP_CHAT_MEMBER_ROBOT_CREATE,
+      fn,
+      options,
+      createDataFilter(options)
+    );
   }
 
   /**
@@ -192,12 +553,68 @@ export class Dispatcher implements Handler {
    * 事件编码: kso.xz.app.group_chat.member.robot.delete
    */
   onV7AppGroupChatMemberRobotDelete(
-    fn: TypedHandlerFunc<V7NotificationAppGroupChatMemberRobotData>
+    fn: TypedHandlerFunc<V7NotificationAppGroupChatMemberRobotData>,
+    options?: TypedRegisterOptions<V7NotificationAppGroupChatMemberRobotData>
   ): this {
-    return this.registerFunc(EventCodes.V7_APP_GROUP_CHAT_MEMBER_ROBOT_DELETE, (event) => {
-      const parsedData = JSON.parse(event.data) as V7NotificationAppGroupChatMemberRobotData;
-      const typedEvent = createTypedEvent(event, parsedData);
-      return fn(typedEvent);
-    });
+    return this.registerTyped(
+      EventCodes.V7_APP_GROUP_CHAT_MEMBER_ROBOT_DELETE,
+      fn,
+      options,
+      createDataFilter(options)
+    );
+  }
+}
+
+/**
+ * 已解析的事件数据，同一事件只解析一次
+ */
+const parsedDataCache = new WeakMap<Event, { data: unknown } | { error: unknown }>();
+
+/**
+ * 解析事件数据（JSON），同一事件的多个类型化处理器和过滤条件共享解析结果
+ * @throws {SyntaxError} 事件数据不是合法的 JSON
+ */
+function parseEventData<T>(event: Event): T {
+  let parsed = parsedDataCache.get(event);
+  if (!parsed) {
+    try {
+      parsed = { data: JSON.parse(event.data) as unknown };
+    } catch (error) {
+      parsed = { error };
+    }
+    parsedDataCache.set(event, parsed);
+  }
+  if ('error' in parsed) {
+    throw parsed.error;
+  }
+  return parsed.data as T;
+}
+
+/**
+ * 判断事件数据是否满足过滤条件；数据不是合法的 JSON 或缺少字段（过滤条件抛出异常）时视为不满足
+ */
+function matchesData<T>(event: Event, predicate: (data: T) => boolean): boolean {
+  try {
+    return predicate(parseEventData<T>(event));
+  } catch {
+    return false;
   }
 }
+
+/**
+ * 按优先级插入处理器（从高到低，相同优先级按注册顺序）
+ */
+function insertByPriority(routes: Route[], route: Route): Route[] {
+  const priority = route.options.priority ?? 0;
+  const index = routes.findIndex((r) => (r.options.priority ?? 0) < priority);
+  return index < 0
+    ? [...routes, route]
+    : [...routes.slice(0, index), route, ...routes.slice(index)];
+}
+
+/**
+ * 将未知异常转换为 Error
+ */
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
@@ -0,0 +1,113 @@
+/**
+ * 类型化事件过滤条件
+ */
+
+import type { IdentityType } from './model/common';
+import type { V7NotificationAppChatMessageCreateData } from './model/im';
+import type { Event } from './event';
+
+/**
+ * 事件过滤函数，返回 false 时跳过该处理器
+ */
+export type EventFilter = (event: Event) => boolean;
+
+/**
+ * 事件数据过滤条件
+ */
+export interface DataFilterOptions<T> {
+  /** 只处理指定企业（company_id）的事件 */
+  companyId?: string | string[];
+
+  /** 自定义过滤条件，返回 false 时跳过该处理器 */
+  where?: (data: T) => boolean;
+}
+
+/**
+ * 消息事件过滤条件
+ */
+export interface MessageFilterOptions extends DataFilterOptions<V7NotificationAppChatMessageCreateData> {
+  /** 只处理指定类型的会话（chat.type），如 'group' */
+  chatType?: string | string[];
+
+  /** 只处理指定类型的发送者（sender.type），如 'user' */
+  senderType?: IdentityType | IdentityType[];
+
+  /**
+   * 按 @ 过滤（message.mentions）
+   * - true: 只处理 @ 了任何人的消息
+   * - false: 只处理没有 @ 的消息
+   * - 字符串: 只处理 @ 了该 ID（如机器人 ID）或 @所有人的消息
+   */
+  mentioned?: boolean | string;
+}
+
+/**
+ * 根据过滤条件创建事件数据过滤函数，未设置任何条件时返回 undefined
+ */
+export function createDataFilter<T extends { company_id: string }>(
+  options: DataFilterOptions<T> = {}
+): ((data: T) => boolean) | undefined {
+  const predicates: ((data: T) => boolean)[] = [];
+
+  if (options.companyId !== undefined) {
+    const companyIds = toArray(options.companyId);
+    predicates.push((data) => companyIds.includes(data.company_id));
+  }
+  if (options.where) {
+    predicates.push(options.where);
+  }
+
+  return allOf(predicates);
+}
+
+/**
+ * 根据过滤条件创建消息事件数据过滤函数，未设置任何条件时返回 undefined
+ */
+export function createMessageFilter(
+  options: MessageFilterOptions = {}
+): ((data: V7NotificationAppChatMessageCreateData) => boolean) | undefined {
+  const predicates: ((data: V7NotificationAppChatMessageCreateData) => boolean)[] = [];
+
+  if (options.chatType !== undefined) {
+    const chatTypes = toArray(options.chatType);
+    predicates.push((data) => chatTypes.includes(data.chat.type));
+  }
+  if (options.senderType !== undefined) {
+    const senderTypes: string[] = toArray(options.senderType);
+    predicates.push((data) => senderTypes.includes(data.sender.type));
+  }
+  const { mentioned } = options;
+  if (mentioned !== undefined) {
+    predicates.push((data) => {
+      const mentions = data.message.mentions ?? [];
+      if (typeof mentioned === 'boolean') {
+        return mentions.length > 0 === mentioned;
+      }
+      return mentions.some((mention) => mention.type === 'all' || mention.id === mentioned);
+    });
+  }
+
+  const dataFilter = createDataFilter(options);
+  if (dataFilter) {
+    predicates.push(dataFilter);
+  }
+
+  return allOf(predicates);
+}
+
+/**
+ * 组合多个过滤函数，全部通过才通过；为空时返回 undefined
+ */
+function allOf<T>(predicates: ((value: T) => boolean)[]): ((value: T) => boolean) | undefined {
+  if (predicates.length === 0) {
+    return undefined;
+  }
+  return (value) => predicates.every((predicate) => predicate(value));
+}
+
+/**
+ * 将单个值或数组统一为数组
+ */
+function toArray<T>(value: T | T[]): T[] {
+  return Array.isArray(value) ? value : [value];
+}
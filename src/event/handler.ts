@@ -3,6 +3,47 @@
  */
 
 import type { Event } from './event';
+import { AckError } from '../errors';
+
+/**
+ * 手动 ACK 控制
+ * 仅在 ClientOptions.manualAck 启用时提供，只有第一次 ack() / nack() 调用生效
+ */
+export interface AckControl {
+  /** 是否已发送 ACK（确认、拒绝或超时） */
+  readonly acknowledged: boolean;
+
+  /**
+   * 确认事件处理成功（AckCode.SUCCESS）
+   */
+  ack(): void;
+
+  /**
+   * 拒绝事件
+   * @param code ACK 状态码（见 AckCode），默认 AckCode.FAILED
+   * @param msg 错误信息
+   */
+  nack(code?: number, msg?: string): void;
+}
+
+/**
+ * 事件处理上下文
+ */
+export interface HandlerContext {
+  /** 处理被取消（如处理超时）时触发 abort */
+  readonly signal: AbortSignal;
+
+  /** 本次处理次数（从 1 开始，重试时递增） */
+  readonly attempt: number;
+
+  /** 手动 ACK 控制（仅在手动 ACK 模式下提供） */
+  readonly ackControl?: AckControl;
+}
+
+/**
+ * 处理器返回值：返回 AckError 与抛出该错误等价
+ */
+export type HandlerResult = void | AckError;
 
 /**
  * 事件处理器接口
@@ -10,15 +51,21 @@ import type { Event } from './event';
 export interface Handler {
   /**
    * 处理事件
+   *
+   * 正常返回即视为处理成功；需要指定 ACK 状态码时抛出或返回 AckError
    * @param event 事件实体
+   * @param context 处理上下文（由 Client 传入）
    */
-  handle(event: Event): Promise<void> | void;
+  handle(event: Event, context?: HandlerContext): Promise<HandlerResult> | HandlerResult;
 }
 
 /**
  * 函数式处理器类型
  */
-export type HandlerFunc = (event: Event) => Promise<void> | void;
+export type HandlerFunc = (
+  event: Event,
+  context?: HandlerContext
+) => Promise<HandlerResult> | HandlerResult;
 
 /**
  * 创建 Handler 的工厂函数
@@ -41,7 +88,20 @@ export class FuncHandler implements Handler {
     this.fn = fn;
   }
 
-  handle(event: Event): Promise<void> | void {
-    return this.fn(event);
+  handle(event: Event, context?: HandlerContext): Promise<HandlerResult> | HandlerResult {
+    return context ? this.fn(event, context) : this.fn(event);
+  }
+}
+
+/**
+ * 等待处理器完成，处理器返回 AckError 时将其抛出
+ * @param result 处理器的返回值
+ */
+export async function settleHandlerResult(
+  result: Promise<HandlerResult> | HandlerResult
+): Promise<void> {
+  const resolved = await result;
+  if (resolved instanceof AckError) {
+    throw resolved;
   }
 }
@@ -7,12 +7,34 @@ export type { Event, TypedEvent } from './event';
 export { buildEventCode, createEvent, createTypedEvent } from './event';
 
 // 处理器
-export type { Handler, HandlerFunc } from './handler';
+export type { Handler, HandlerFunc, HandlerContext, HandlerResult, AckControl } from './handler';
 export { createHandler, FuncHandler } from './handler';
 
 // 分发器
 export { Dispatcher } from './dispatcher';
-export type { TypedHandlerFunc } from './dispatcher';
+export type {
+  TypedHandlerFunc,
+  MessageHandlerFunc,
+  DispatcherOptions,
+  HandlerExecution,
+  RegisterOptions,
+  TypedRegisterOptions,
+  MessageRegisterOptions,
+} from './dispatcher';
+
+// 过滤条件
+export type { EventFilter, DataFilterOptions, MessageFilterOptions } from './filter';
+
+// 中间件
+export type { Middleware, NextFunc } from './middleware';
+
+// 消息事件
+export { createMessageEvent } from './message-event';
+export type { MessageEvent } from './message-event';
+
+// 顺序处理
+export { defaultOrderingKey } from './ordering';
+export type { OrderingKeyFunc } from './ordering';
 
 // 事件数据模型
 export * from './model';
@@ -0,0 +1,72 @@
+/**
+ * 消息事件（可直接回复）
+ */
+
+import type { TypedEvent } from './event';
+import type { V7NotificationAppChatMessageCreateData } from './model/im';
+import type { MessageSender, V7SendMessageResponse } from '../api/types';
+import type { SendTextOptions } from '../api/client';
+import { buildTextMessage } from '../api/client';
+import { ApiClientNotSetError } from '../errors';
+
+/**
+ * 用户给应用发送消息事件（kso.app_chat.message.create）
+ * 在 TypedEvent 基础上提供回复消息的便捷方法
+ */
+export interface MessageEvent extends TypedEvent<V7NotificationAppChatMessageCreateData> {
+  /**
+   * 在消息所在会话中回复文本消息
+   * @param text 文本内容
+   * @param options 发送选项
+   */
+  reply(text: string, options?: SendTextOptions): Promise<V7SendMessageResponse>;
+
+  /**
+   * 引用原消息回复文本消息
+   * @param text 文本内容
+   * @param options 发送选项
+   */
+  replyQuote(text: string, options?: SendTextOptions): Promise<V7SendMessageResponse>;
+
+  /**
+   * 回复文本消息并@消息发送者
+   * @param text 文本内容（追加在@之后）
+   * @param options 发送选项
+   */
+  mentionSender(text?: string, options?: SendTextOptions): Promise<V7SendMessageResponse>;
+}
+
+/**
+ * 创建消息事件
+ * @param event 类型化事件
+ * @param sender 消息发送接口，未设置时回复方法抛出 ApiClientNotSetError
+ */
+export function createMessageEvent(
+  event: TypedEvent<V7NotificationAppChatMessageCreateData>,
+  sender?: MessageSender
+): MessageEvent {
+  const { chat, message } = event.parsedData;
+
+  const reply = (text: string, options?: SendTextOptions) => {
+    if (!sender) {
+      return Promise.reject(new ApiClientNotSetError());
+    }
+    return sender.sendMessage(buildTextMessage(chat.id, text, options));
+  };
+
+  return {
+    ...event,
+    reply,
+    replyQuote: (text, options) => reply(text, { ...options, quoteMsgId: message.id }),
+    mentionSender: (text = '', options) => {
+      const mentionId = String(options?.mentions?.length ?? 0);
+      return reply(`<at id="${mentionId}"></at> ${text}`.trimEnd(), {
+        ...options,
+        mentions: [
+          ...(options?.mentions ?? []),
+          { id: mentionId, type: 'user', identity: event.parsedData.sender },
+        ],
+      });
+    },
+  };
+}
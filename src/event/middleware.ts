@@ -0,0 +1,60 @@
+/**
+ * 事件分发中间件
+ */
+
+import type { Event } from './event';
+import type { HandlerContext } from './handler';
+
+/**
+ * 调用下一个中间件（最后一个中间件的 next 为事件处理器）
+ */
+export type NextFunc = () => Promise<void>;
+
+/**
+ * 事件分发中间件（Koa 风格）
+ * 在 next() 前后执行逻辑；不调用 next() 时事件不再交给后续中间件和处理器，视为处理成功
+ *
+ * @example
+ * ```typescript
+ * const timing: Middleware = async (event, next) => {
+ *   const start = Date.now();
+ *   await next();
+ *   console.log(`${event.eventCode} took ${Date.now() - start}ms`);
+ * };
+ * ```
+ */
+export type Middleware = (
+  event: Event,
+  next: NextFunc,
+  context?: HandlerContext
+) => Promise<void> | void;
+
+/**
+ * 按顺序组合中间件，最后调用 handler
+ * @param middlewares 中间件列表
+ * @param handler 最内层的处理函数
+ * @returns 组合后的处理函数
+ */
+export function composeMiddleware(
+  middlewares: Middleware[],
+  handler: (event: Event, context?: HandlerContext) => Promise<void>
+): (event: Event, context?: HandlerContext) => Promise<void> {
+  return (event, context) => {
+    let index = -1;
+
+    const run = async (i: number): Promise<void> => {
+      if (i <= index) {
+        throw new Error('next() called multiple times');
+      }
+      index = i;
+
+      const middleware = middlewares[i];
+      if (!middleware) {
+        return handler(event, context);
+      }
+      await middleware(event, () => run(i + 1), context);
+    };
+
+    return run(0);
+  };
+}
@@ -0,0 +1,32 @@
+/**
+ * 事件顺序处理
+ */
+
+import type { Event } from './event';
+
+/**
+ * 顺序处理 key 提取函数
+ * 相同 key 的事件串行处理，返回 undefined 表示该事件无需保序
+ */
+export type OrderingKeyFunc = (event: Event) => string | undefined;
+
+/**
+ * 默认顺序处理 key：会话 ID
+ * 从 V7Notification* 事件数据中提取 chat.id（消息事件）或 chat_id（会话、群聊事件）
+ */
+export function defaultOrderingKey(event: Event): string | undefined {
+  let data: unknown;
+  try {
+    data = JSON.parse(event.data);
+  } catch {
+    return undefined;
+  }
+
+  if (typeof data !== 'object' || data === null) {
+    return undefined;
+  }
+
+  const { chat, chat_id } = data as { chat?: { id?: unknown }; chat_id?: unknown };
+  const id = chat?.id ?? chat_id;
+  return typeof id === 'string' && id !== '' ? id : undefined;
+}
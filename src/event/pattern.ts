@@ -0,0 +1,80 @@
+/**
+ * 事件编码通配符匹配
+ */
+
+/**
+ * 事件编码通配符的匹配优先级
+ */
+export interface PatternSpecificity {
+  /** 不含通配符的段数，越多越具体 */
+  literalSegments: number;
+  /** `**` 的个数，越少越具体 */
+  globstars: number;
+}
+
+/**
+ * 判断事件编码是否包含通配符
+ */
+export function isEventCodePattern(eventCode: string): boolean {
+  return /[*?]/.test(eventCode);
+}
+
+/**
+ * 计算通配符的匹配优先级
+ */
+export function patternSpecificity(pattern: string): PatternSpecificity {
+  const segments = pattern.split('.');
+  return {
+    literalSegments: segments.filter((segment) => !isEventCodePattern(segment)).length,
+    globstars: pattern.split('**').length - 1,
+  };
+}
+
+/**
+ * 比较两个通配符的优先级，更具体的排在前面
+ * 先比较不含通配符的段数（多者优先），再比较 `**` 的个数（少者优先）
+ */
+export function compareSpecificity(a: PatternSpecificity, b: PatternSpecificity): number {
+  return b.literalSegments - a.literalSegments || a.globstars - b.globstars;
+}
+
+/**
+ * 将事件编码通配符转换为正则表达式
+ * - `*` 匹配一段（不含 `.`）
+ * - `**` 匹配任意多段
+ * - `?` 匹配一个字符（不含 `.`）
+ *
+ * 例如 `kso.app_chat.*.create` 匹配 `kso.app_chat.message.create`，
+ * `kso.**` 匹配所有以 `kso.` 开头的事件编码。
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i] as string;
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        source += '.*';
+        i++;
+      } else {
+        source += '[^.]*';
+      }
+    } else if (char === '?') {
+      source += '[^.]';
+    } else {
+      source += char.replace(/[\\^$+.()|[\]{}]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * 创建事件编码过滤函数，未指定通配符时匹配所有事件编码
+ */
+export function createEventCodeFilter(patterns: string[]): (eventCode: string) => boolean {
+  if (patterns.length === 0) {
+    return () => true;
+  }
+
+  const regexps = patterns.map(globToRegExp);
+  return (eventCode) => regexps.some((regexp) => regexp.test(eventCode));
+}
@@ -24,7 +24,28 @@
 export { Client } from './client';
 
 // 类型
-export type { ClientOptions, ReconnectConfig, TimeoutConfig } from './types';
+export type {
+  ClientOptions,
+  ReconnectConfig,
+  BackoffConfig,
+  RetryPolicy,
+  RetryConfig,
+  TimeoutConfig,
+  QueueConfig,
+  QueueFullPolicy,
+  ClientStats,
+  RedriveResult,
+  ReplayResult,
+  StopOptions,
+  StopResult,
+  ClientEventMap,
+  ConnectingInfo,
+  ConnectedInfo,
+  DisconnectedInfo,
+  ReconnectingInfo,
+  EventDropReason,
+  EventDroppedInfo,
+} from './types';
 
 // 事件模块
 export {
@@ -37,6 +58,10 @@ export {
   FuncHandler,
   // 分发器
   Dispatcher,
+  // 消息事件
+  createMessageEvent,
+  // 顺序处理
+  defaultOrderingKey,
   // 事件数据模型
   EventCodes,
 } from './event';
@@ -45,7 +70,23 @@ export type {
   TypedEvent,
   Handler,
   HandlerFunc,
+  HandlerContext,
+  HandlerResult,
+  AckControl,
   TypedHandlerFunc,
+  MessageHandlerFunc,
+  DispatcherOptions,
+  HandlerExecution,
+  Middleware,
+  NextFunc,
+  RegisterOptions,
+  TypedRegisterOptions,
+  MessageRegisterOptions,
+  EventFilter,
+  DataFilterOptions,
+  MessageFilterOptions,
+  MessageEvent,
+  OrderingKeyFunc,
   // 事件数据模型类型
   EventCode,
   IdentityType,
@@ -65,6 +106,47 @@ export type {
   V7NotificationAppGroupChatMemberRobotData,
 } from './event';
 
+// 去重模块
+export { MemoryDedupStore, FileDedupStore } from './dedup';
+export type { DedupStore, MemoryDedupStoreOptions, FileDedupStoreOptions } from './dedup';
+
+// 死信模块
+export { FileDeadLetterSink, matchDeadLetter } from './deadletter';
+
+// OpenAPI 模块
+export { ApiClient, buildTextMessage } from './api';
+export type {
+  ApiClientOptions,
+  ApiResponse,
+  SendTextOptions,
+  V7MessageReceiver,
+  V7SendMessageContentText,
+  V7SendMessageContent,
+  V7SendMessageMention,
+  V7SendMessageRequest,
+  V7SendMessageResponse,
+  MessageSender,
+} from './api';
+
+// 录制回放模块
+export { EventRecorder, ReplaySource } from './recorder';
+export type {
+  RecordedEvent,
+  EventRecorderOptions,
+  ReplayPacing,
+  ReplaySourceOptions,
+} from './recorder';
+export type {
+  DeadLetter,
+  DeadLetterError,
+  DeadLetterSink,
+  DeadLetterFilter,
+  FileDeadLetterSinkOptions,
+} from './deadletter';
+
+// 密钥模块
+export type { AppSecrets, SecretProvider, AppSecretSource } from './secret';
+
 // 日志模块
 export { LogLevel, DefaultLogger, NopLogger } from './logger';
 export type { Logger } from './logger';
@@ -79,14 +161,55 @@ export {
   ConnectionError,
   HandlerNotSetError,
   ReconnectExceededError,
+  DeadLetterSinkNotSetError,
+  ApiClientNotSetError,
   ClientClosedError,
   AlreadyConnectedError,
+  HandlerTimeoutError,
+  ReplayError,
+  AckError,
+  HandlerAggregateError,
+  ApiClientError,
+  ApiServerError,
+  SecretProviderError,
 } from './errors';
 
 // 协议常量
-export { DEFAULT_ENDPOINT, DefaultConfig, GoAwayReason } from './protocol';
-export type { GoAwayReasonType } from './protocol';
+export {
+  DEFAULT_ENDPOINT,
+  DEFAULT_API_BASE_URL,
+  DefaultConfig,
+  GoAwayReason,
+  AckCode,
+  ACK_MSG_MAX_LENGTH,
+} from './protocol';
+export type {
+  GoAwayReasonType,
+  AckCodeType,
+  GoAwayMessage,
+  AckMessage,
+  EventMessage,
+} from './protocol';
 
 // 加解密（用于高级用例和测试）
-export { signForWebSocket, verifySignature, decrypt, hmacSha256, md5 } from './crypto';
-export type { SignForWebSocketParams, VerifySignatureParams, DecryptParams } from './crypto';
+export {
+  signForWebSocket,
+  signKso1,
+  verifyKso1,
+  verifySignature,
+  buildSignatureContent,
+  decrypt,
+  checkEventTime,
+  hmacSha256,
+  md5,
+} from './crypto';
+export type {
+  SignForWebSocketParams,
+  Kso1Headers,
+  SignKso1Params,
+  Kso1Request,
+  VerifyKso1Options,
+  VerifySignatureParams,
+  DecryptParams,
+  CheckEventTimeParams,
+} from './crypto';
@@ -7,6 +7,11 @@
  */
 export const DEFAULT_ENDPOINT = 'wss://openapi.wps.cn/v7/event/ws';
 
+/**
+ * 默认 OpenAPI 地址
+ */
+export const DEFAULT_API_BASE_URL = 'https://openapi.wps.cn';
+
 /**
  * 消息类型
  */
@@ -33,6 +38,9 @@ export const DefaultConfig = {
   /** 默认启用 ACK 模式 */
   ACK_MODE: true,
 
+  /** 默认手动 ACK 确认截止时间（毫秒） */
+  ACK_DEADLINE: 60000,
+
   /** 默认启用自动重连 */
   AUTO_RECONNECT: true,
 
@@ -56,4 +64,43 @@ export const DefaultConfig = {
 
   /** 默认 Pong 等待超时（毫秒） */
   PONG_TIMEOUT: 90000,
+
+  /** 默认密钥提供者结果缓存时间（毫秒） */
+  SECRET_CACHE_TTL: 300000,
+
+  /** 默认 OpenAPI 请求超时（毫秒） */
+  API_TIMEOUT: 10000,
+
+  /** 默认允许的最大事件年龄（毫秒），0 表示不检查 */
+  MAX_EVENT_AGE: 0,
+
+  /** 默认允许的时钟偏差（毫秒） */
+  CLOCK_SKEW: 60000,
+
+  /** 默认处理重试基础间隔（毫秒） */
+  RETRY_BASE_INTERVAL: 1000,
+
+  /** 默认处理重试最大间隔（毫秒） */
+  RETRY_MAX_INTERVAL: 30000,
+
+  /** 默认处理重试间隔倍数 */
+  RETRY_MULTIPLIER: 2.0,
+
+  /** 默认处理重试抖动系数 */
+  RETRY_JITTER: 0.2,
+
+  /** 默认最大并发处理事件数，-1 表示不限制 */
+  CONCURRENCY: -1,
+
+  /** 默认事件队列容量 */
+  QUEUE_SIZE: 1000,
+
+  /** 默认队列已满策略 */
+  QUEUE_FULL_POLICY: 'wait',
+
+  /** 默认事件处理超时（毫秒），0 表示不限制 */
+  HANDLER_TIMEOUT: 0,
+
+  /** 默认停止时等待处理中事件完成的超时（毫秒） */
+  DRAIN_TIMEOUT: 10000,
 } as const;
@@ -44,6 +44,27 @@ export interface GoAwayMessage {
   reconnect_ms?: number;
 }
 
+/**
+ * ACK 状态码
+ */
+export const AckCode = {
+  /** 处理成功 */
+  SUCCESS: 200,
+  /** 永久拒绝，事件无法处理，服务端不应重新投递 */
+  REJECTED: 400,
+  /** 处理失败，服务端可重新投递 */
+  FAILED: 500,
+  /** 暂时无法处理，服务端应稍后重新投递 */
+  RETRY_LATER: 503,
+} as const;
+
+export type AckCodeType = (typeof AckCode)[keyof typeof AckCode];
+
+/**
+ * ACK 错误信息最大长度，超出部分会被截断
+ */
+export const ACK_MSG_MAX_LENGTH = 256;
+
 /**
  * ACK 消息
  */
@@ -54,7 +75,7 @@ export interface AckMessage {
   /** 事件 nonce */
   nonce: string;
 
-  /** 状态码（200=成功，500=失败） */
+  /** 状态码，见 AckCode */
   code: number;
 
   /** 错误信息 */
@@ -0,0 +1,7 @@
+/**
+ * 队列模块导出
+ */
+
+export { TaskQueue } from './task-queue';
+export type { Task } from './task-queue';
+export { KeyedSerializer } from './keyed-serializer';
@@ -0,0 +1,66 @@
+/**
+ * 按 key 串行执行的任务调度
+ */
+
+import type { Task } from './task-queue';
+
+/**
+ * 按 key 串行执行任务
+ * 相同 key 的任务按提交顺序依次执行，不同 key 的任务互不阻塞
+ */
+export class KeyedSerializer {
+  private readonly tails: Map<string, Promise<void>> = new Map();
+  private waiting = 0;
+
+  /**
+   * 等待前序同 key 任务完成的任务数
+   */
+  get size(): number {
+    return this.waiting;
+  }
+
+  /**
+   * 活跃的 key 数量
+   */
+  get keys(): number {
+    return this.tails.size;
+  }
+
+  /**
+   * 提交任务
+   * @param key 串行 key
+   * @param task 任务
+   * @returns 任务执行完成后 resolve，任务失败时 reject（不影响后续同 key 任务）
+   */
+  run(key: string, task: Task): Promise<void> {
+    const previous = this.tails.get(key);
+    if (previous) {
+      this.waiting++;
+    }
+
+    const current = (previous ?? Promise.resolve()).then(() => {
+      if (previous) {
+        this.waiting--;
+      }
+      return task();
+    });
+
+    // tail 永不 reject，保证后续任务继续执行
+    const tail: Promise<void> = current.then(
+      () => this.release(key, tail),
+      () => this.release(key, tail)
+    );
+    this.tails.set(key, tail);
+
+    return current;
+  }
+
+  /**
+   * 任务完成后，若没有后续同 key 任务则移除 key
+   */
+  private release(key: string, tail: Promise<void>): void {
+    if (this.tails.get(key) === tail) {
+      this.tails.delete(key);
+    }
+  }
+}
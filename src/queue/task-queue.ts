@@ -0,0 +1,118 @@
+/**
+ * 有界并发任务队列
+ */
+
+/**
+ * 队列任务
+ */
+export type Task = () => Promise<void>;
+
+/**
+ * 等待执行的任务
+ */
+interface PendingTask {
+  task: Task;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * 有界并发任务队列
+ * 同时执行的任务数不超过 concurrency，超出的任务按提交顺序排队等待
+ */
+export class TaskQueue {
+  private readonly concurrency: number;
+  private readonly pending: PendingTask[] = [];
+  private active = 0;
+  private closed = false;
+
+  /**
+   * @param concurrency 最大并发数，Infinity 表示不限制
+   */
+  constructor(concurrency: number) {
+    if (!(concurrency >= 1)) {
+      throw new RangeError(`Invalid concurrency: ${concurrency}`);
+    }
+    this.concurrency = concurrency;
+  }
+
+  /**
+   * 正在执行的任务数
+   */
+  get running(): number {
+    return this.active;
+  }
+
+  /**
+   * 排队等待的任务数
+   */
+  get size(): number {
+    return this.pending.length;
+  }
+
+  /**
+   * 提交任务
+   * @param task 任务
+   * @returns 任务执行完成（或被清除、队列已关闭）后 resolve
+   */
+  push(task: Task): Promise<void> {
+    if (this.closed) {
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      this.pending.push({ task, resolve, reject });
+      this.next();
+    });
+  }
+
+  /**
+   * 清除所有排队中的任务（不影响正在执行的任务）
+   * @returns 被清除的任务数
+   */
+  clear(): number {
+    const cleared = this.pending.splice(0, this.pending.length);
+    for (const item of cleared) {
+      item.resolve();
+    }
+    return cleared.length;
+  }
+
+  /**
+   * 关闭队列：清除排队中的任务，之后提交的任务不再执行
+   * @returns 被清除的任务数
+   */
+  close(): number {
+    this.closed = true;
+    return this.clear();
+  }
+
+  /**
+   * 在并发数允许时启动排队中的任务
+   */
+  private next(): void {
+    while (this.active < this.concurrency) {
+      const item = this.pending.shift();
+      if (!item) {
+        return;
+      }
+      void this.run(item);
+    }
+  }
+
+  /**
+   * 执行任务
+   */
+  private async run(item: PendingTask): Promise<void> {
+    this.active++;
+    try {
+      await item.task();
+      item.resolve();
+    } catch (error) {
+      item.reject(error);
+    } finally {
+      this.active--;
+      this.next();
+    }
+  }
+}
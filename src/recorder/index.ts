@@ -0,0 +1,8 @@
+/**
+ * 录制回放模块导出
+ */
+
+export { EventRecorder } from './recorder';
+export type { RecordedEvent, EventRecorderOptions } from './recorder';
+export { ReplaySource } from './replay';
+export type { ReplayPacing, ReplaySourceOptions } from './replay';
@@ -0,0 +1,112 @@
+/**
+ * 原始事件录制
+ */
+
+import { appendFile, rename, stat, unlink } from 'node:fs/promises';
+import type { EventMessage } from '../protocol/messages';
+
+/**
+ * 录制的原始事件（JSONL 文件中的一行）
+ */
+export interface RecordedEvent {
+  /** 接收时间（毫秒时间戳） */
+  receivedAt: number;
+  /** 原始事件消息（未验签、未解密） */
+  message: EventMessage;
+}
+
+/**
+ * 事件录制器选项
+ */
+export interface EventRecorderOptions {
+  /** 录制文件路径（JSONL 格式） */
+  path: string;
+
+  /**
+   * 单个文件最大字节数，超出后滚动
+   * @default 10485760
+   */
+  maxFileSize?: number;
+
+  /**
+   * 保留的历史文件数（path.1 ~ path.N，path.1 最新）
+   * @default 5
+   */
+  maxFiles?: number;
+}
+
+/**
+ * 原始事件录制器
+ *
+ * 将原始事件消息（加密数据和接收时间）追加写入 JSONL 文件，
+ * 文件超过 maxFileSize 后滚动为 path.1、path.2 ...，最多保留 maxFiles 个历史文件。
+ */
+export class EventRecorder {
+  private readonly path: string;
+  private readonly maxFileSize: number;
+  private readonly maxFiles: number;
+  private size: number | null = null;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(options: EventRecorderOptions) {
+    this.path = options.path;
+    this.maxFileSize = options.maxFileSize ?? 10 * 1024 * 1024;
+    this.maxFiles = options.maxFiles ?? 5;
+  }
+
+  /**
+   * 录制一条原始事件
+   * @param message 原始事件消息
+   * @param receivedAt 接收时间（毫秒时间戳）
+   */
+  record(message: EventMessage, receivedAt = Date.now()): Promise<void> {
+    const line = JSON.stringify({ receivedAt, message } satisfies RecordedEvent) + '\n';
+    const bytes = Buffer.byteLength(line);
+
+    const next = this.pending.then(async () => {
+      const size = await this.currentSize();
+      if (size > 0 && size + bytes > this.maxFileSize) {
+        await this.rotate();
+      }
+      await appendFile(this.path, line, 'utf-8');
+      this.size = (this.size ?? 0) + bytes;
+    });
+    this.pending = next.catch(() => undefined);
+    return next;
+  }
+
+  /**
+   * 当前文件大小
+   */
+  private async currentSize(): Promise<number> {
+    if (this.size === null) {
+      try {
+        this.size = (await stat(this.path)).size;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw error;
+        }
+        this.size = 0;
+      }
+    }
+    return this.size;
+  }
+
+  /**
+   * 滚动文件：path.(N-1) -> path.N ... path -> path.1
+   */
+  private async rotate(): Promise<void> {
+    if (this.maxFiles <= 0) {
+      await unlink(this.path);
+      this.size = 0;
+      return;
+    }
+
+    await unlink(`${this.path}.${this.maxFiles}`).catch(() => undefined);
+    for (let i = this.maxFiles - 1; i >= 1; i--) {
+      await rename(`${this.path}.${i}`, `${this.path}.${i + 1}`).catch(() => undefined);
+    }
+    await rename(this.path, `${this.path}.1`);
+    this.size = 0;
+  }
+}
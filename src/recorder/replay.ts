@@ -0,0 +1,92 @@
+/**
+ * 录制事件回放
+ */
+
+import { readFile } from 'node:fs/promises';
+import { delay } from '../ws/reconnect';
+import type { RecordedEvent } from './recorder';
+
+/**
+ * 回放节奏
+ * - realtime: 按录制时的时间间隔回放
+ * - asap: 尽可能快地回放
+ * - 数字: 加速倍数，如 10 表示以 10 倍速回放
+ */
+export type ReplayPacing = 'realtime' | 'asap' | number;
+
+/**
+ * 回放源选项
+ */
+export interface ReplaySourceOptions {
+  /** 录制文件路径，多个文件按给定顺序回放（滚动文件应从最旧的开始） */
+  path: string | string[];
+
+  /**
+   * 回放节奏
+   * @default 'asap'
+   */
+  pacing?: ReplayPacing;
+}
+
+/**
+ * 录制事件回放源
+ *
+ * 按录制顺序读取原始事件，并按回放节奏等待后依次产出，可通过 Client.replay() 回放。
+ */
+export class ReplaySource implements AsyncIterable<RecordedEvent> {
+  private readonly paths: string[];
+  private readonly speed: number;
+
+  constructor(options: ReplaySourceOptions) {
+    this.paths = Array.isArray(options.path) ? options.path : [options.path];
+
+    const pacing = options.pacing ?? 'asap';
+    if (pacing === 'realtime') {
+      this.speed = 1;
+    } else if (pacing === 'asap') {
+      this.speed = Infinity;
+    } else if (pacing > 0) {
+      this.speed = pacing;
+    } else {
+      throw new RangeError(`Invalid replay pacing: ${pacing}`);
+    }
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<RecordedEvent> {
+    let previous: number | null = null;
+
+    for (const path of this.paths) {
+      for (const record of await readRecords(path)) {
+        if (previous !== null && Number.isFinite(this.speed)) {
+          const wait = (record.receivedAt - previous) / this.speed;
+          if (wait > 0) {
+            await delay(wait);
+          }
+        }
+        previous = record.receivedAt;
+        yield record;
+      }
+    }
+  }
+}
+
+/**
+ * 读取录制文件中的事件
+ */
+async function readRecords(path: string): Promise<RecordedEvent[]> {
+  const content = await readFile(path, 'utf-8');
+  const records: RecordedEvent[] = [];
+
+  for (const line of content.split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      records.push(JSON.parse(line) as RecordedEvent);
+    } catch {
+      // 忽略损坏的行（如进程崩溃时写了一半）
+    }
+  }
+
+  return records;
+}
@@ -0,0 +1,6 @@
+/**
+ * 密钥模块导出
+ */
+
+export { SecretCache } from './provider';
+export type { AppSecrets, SecretProvider, AppSecretSource } from './provider';
@@ -0,0 +1,122 @@
+/**
+ * 应用密钥提供者
+ */
+
+import { SecretProviderError } from '../errors';
+
+/**
+ * 应用密钥列表，第一个为当前密钥，其余为密钥轮换期间仍被接受的旧密钥
+ */
+export type AppSecrets = [string, ...string[]];
+
+/**
+ * 应用密钥提供者
+ * 用于从密钥管理服务加载密钥，可返回单个密钥或密钥列表（第一个为当前密钥）
+ */
+export type SecretProvider = () => Promise<string | string[]> | string | string[];
+
+/**
+ * 应用密钥来源：固定密钥、密钥列表或密钥提供者
+ */
+export type AppSecretSource = string | string[] | SecretProvider;
+
+/**
+ * 应用密钥缓存
+ *
+ * 固定密钥始终有效；密钥提供者的结果在 TTL 内复用，并发刷新共享同一次调用。
+ */
+export class SecretCache {
+  private readonly provider?: SecretProvider;
+  private readonly ttl: number;
+
+  private secrets?: AppSecrets;
+  private expiresAt = 0;
+  private pending: Promise<AppSecrets> | null = null;
+
+  /**
+   * @param source 密钥来源
+   * @param ttl 密钥提供者结果的缓存时间（毫秒）
+   * @throws {TypeError} 密钥列表为空
+   */
+  constructor(source: AppSecretSource, ttl: number) {
+    this.ttl = ttl;
+    if (typeof source === 'function') {
+      this.provider = source;
+      return;
+    }
+
+    const secrets = toAppSecrets(source);
+    if (!secrets) {
+      throw new TypeError('appSecret must not be empty');
+    }
+    this.secrets = secrets;
+    this.expiresAt = Infinity;
+  }
+
+  /**
+   * 同步获取未过期的密钥，缓存失效时返回 undefined
+   */
+  peek(): AppSecrets | undefined {
+    return Date.now() < this.expiresAt ? this.secrets : undefined;
+  }
+
+  /**
+   * 同步获取最近一次成功加载的密钥（忽略 TTL），从未加载成功时返回 undefined
+   */
+  stale(): AppSecrets | undefined {
+    return this.secrets;
+  }
+
+  /**
+   * 获取密钥，缓存失效时调用密钥提供者
+   * @throws {SecretProviderError} 密钥提供者调用失败或返回空密钥
+   */
+  async get(): Promise<AppSecrets> {
+    return this.peek() ?? this.refresh();
+  }
+
+  /**
+   * 忽略缓存，重新调用密钥提供者（固定密钥直接返回）
+   * @throws {SecretProviderError} 密钥提供者调用失败或返回空密钥
+   */
+  refresh(): Promise<AppSecrets> {
+    if (!this.provider) {
+      return Promise.resolve(this.secrets as AppSecrets);
+    }
+
+    this.pending ??= this.load(this.provider).finally(() => {
+      this.pending = null;
+    });
+    return this.pending;
+  }
+
+  /**
+   * 调用密钥提供者并写入缓存
+   */
+  private async load(provider: SecretProvider): Promise<AppSecrets> {
+    let result: string | string[];
+    try {
+      result = await provider();
+    } catch (error) {
+      throw new SecretProviderError(
+        `Secret provider failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    const secrets = toAppSecrets(result);
+    if (!secrets) {
+      throw new SecretProviderError('Secret provider returned no secret');
+    }
+    this.secrets = secrets;
+    this.expiresAt = Date.now() + this.ttl;
+    return secrets;
+  }
+}
+
+/**
+ * 转换为密钥列表，过滤空字符串，列表为空时返回 undefined
+ */
+function toAppSecrets(source: string | string[]): AppSecrets | undefined {
+  const [current, ...previous] = (Array.isArray(source) ? source : [source]).filter(Boolean);
+  return current === undefined ? undefined : [current, ...previous];
+}
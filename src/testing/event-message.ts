@@ -0,0 +1,100 @@
+/**
+ * 测试用事件消息构建
+ */
+
+import { randomBytes } from 'node:crypto';
+import { buildSignatureContent, encryptForTest, hmacSha256 } from '../crypto';
+import { createEvent } from '../event/event';
+import type { Event } from '../event/event';
+import type { EventMessage } from '../protocol/messages';
+
+/**
+ * 加密参数
+ */
+export interface EncryptParams {
+  /** 应用 SecretKey */
+  secretKey: string;
+  /** 原始数据 */
+  data: string;
+  /** iv 向量（至少 16 字节） */
+  nonce: string;
+}
+
+/**
+ * 使用与服务端相同的算法加密事件数据（AES-CBC，结果为标准 base64 编码）
+ * @param params 加密参数
+ * @returns 加密后的数据
+ */
+export function encrypt(params: EncryptParams): string {
+  return encryptForTest(params.data, params.secretKey, params.nonce);
+}
+
+/**
+ * 构建事件消息参数
+ */
+export interface BuildEventMessageParams {
+  /** 消息主题 */
+  topic: string;
+  /** 变更动作 */
+  operation: string;
+  /** 事件数据，对象会被序列化为 JSON */
+  data: string | object;
+  /** 应用 ID */
+  appId: string;
+  /** 应用密钥 */
+  appSecret: string;
+  /** 随机数/iv 向量，默认随机生成 */
+  nonce?: string;
+  /** 时间戳（秒），默认当前时间 */
+  time?: number;
+}
+
+/**
+ * 构建加密、签名后的事件消息，可直接推送给 Client
+ * @param params 构建参数
+ * @returns 事件消息
+ */
+export function buildEventMessage(params: BuildEventMessageParams): EventMessage {
+  const { topic, operation, appId, appSecret } = params;
+  const nonce = params.nonce ?? randomBytes(8).toString('hex');
+  const time = params.time ?? Math.floor(Date.now() / 1000);
+  const encryptedData = encrypt({ secretKey: appSecret, data: serialize(params.data), nonce });
+  const content = buildSignatureContent({ accessKey: appId, topic, nonce, time, encryptedData });
+
+  return {
+    topic,
+    operation,
+    time,
+    nonce,
+    signature: hmacSha256(content, appSecret),
+    encrypted_data: encryptedData,
+  };
+}
+
+/**
+ * 构建解密后的事件，可直接交给 Dispatcher 或 Handler 处理
+ * @param eventCode 事件编码（topic.operation）
+ * @param data 事件数据，对象会被序列化为 JSON
+ * @param time 时间戳（秒），默认当前时间
+ * @returns 事件
+ */
+export function buildEvent(eventCode: string, data: string | object, time?: number): Event {
+  const index = eventCode.lastIndexOf('.');
+  if (index <= 0) {
+    throw new Error(`Invalid event code: ${eventCode}`);
+  }
+
+  return createEvent(
+    eventCode.slice(0, index),
+    eventCode.slice(index + 1),
+    time ?? Math.floor(Date.now() / 1000),
+    serialize(data)
+  );
+}
+
+/**
+ * 序列化事件数据
+ */
+function serialize(data: string | object): string {
+  return typeof data === 'string' ? data : JSON.stringify(data);
+}
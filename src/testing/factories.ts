@@ -0,0 +1,121 @@
+/**
+ * 事件数据模型工厂
+ *
+ * 生成带有合理默认值的事件数据，可通过 overrides 覆盖部分字段。
+ */
+
+import type {
+  V7NotificationChatInfo,
+  V7NotificationMessageInfo,
+  V7NotificationAppChatMessageCreateData,
+  V7NotificationAppChatCreateData,
+  V7NotificationAppGroupChatData,
+  V7NotificationAppGroupChatMemberUserData,
+  V7NotificationAppGroupChatMemberRobotData,
+} from '../event/model';
+
+/** 默认企业 ID */
+const COMPANY_ID = 'company_1';
+
+/** 默认会话 ID */
+const CHAT_ID = 'chat_1';
+
+/**
+ * 会话信息
+ */
+export function buildV7ChatInfo(
+  overrides: Partial<V7NotificationChatInfo> = {}
+): V7NotificationChatInfo {
+  return {
+    id: CHAT_ID,
+    type: 'group',
+    ...overrides,
+  };
+}
+
+/**
+ * 消息信息（默认为文本消息）
+ */
+export function buildV7MessageInfo(
+  overrides: Partial<V7NotificationMessageInfo> = {}
+): V7NotificationMessageInfo {
+  return {
+    id: 'message_1',
+    type: 'text',
+    content: { text: 'hello' },
+    ...overrides,
+  };
+}
+
+/**
+ * 用户在会话中给应用发送消息（kso.app_chat.message.create）
+ */
+export function buildV7AppChatMessageCreateData(
+  overrides: Partial<V7NotificationAppChatMessageCreateData> = {}
+): V7NotificationAppChatMessageCreateData {
+  return {
+    company_id: COMPANY_ID,
+    chat: buildV7ChatInfo(),
+    sender: { type: 'user', id: 'user_1' },
+    send_time: Math.floor(Date.now() / 1000),
+    message: buildV7MessageInfo(),
+    ...overrides,
+  };
+}
+
+/**
+ * 首次创建用户和机器人的会话（kso.app_chat.create）
+ */
+export function buildV7AppChatCreateData(
+  overrides: Partial<V7NotificationAppChatCreateData> = {}
+): V7NotificationAppChatCreateData {
+  return {
+    chat_id: CHAT_ID,
+    creator: { type: 'user', id: 'user_1' },
+    company_id: COMPANY_ID,
+    ...overrides,
+  };
+}
+
+/**
+ * 群聊解散（kso.xz.app.group_chat.delete）
+ */
+export function buildV7AppGroupChatData(
+  overrides: Partial<V7NotificationAppGroupChatData> = {}
+): V7NotificationAppGroupChatData {
+  return {
+    chat_id: CHAT_ID,
+    company_id: COMPANY_ID,
+    operator: { type: 'user', id: 'user_1' },
+    ...overrides,
+  };
+}
+
+/**
+ * 用户进出群（kso.xz.app.group_chat.member.user.create / delete）
+ */
+export function buildV7AppGroupChatMemberUserData(
+  overrides: Partial<V7NotificationAppGroupChatMemberUserData> = {}
+): V7NotificationAppGroupChatMemberUserData {
+  return {
+    chat_id: CHAT_ID,
+    company_id: COMPANY_ID,
+    operator: { type: 'user', id: 'user_1' },
+    users: [{ type: 'user', id: 'user_2' }],
+    ...overrides,
+  };
+}
+
+/**
+ * 机器人进出群（kso.xz.app.group_chat.member.robot.create / delete）
+ */
+export function buildV7AppGroupChatMemberRobotData(
+  overrides: Partial<V7NotificationAppGroupChatMemberRobotData> = {}
+): V7NotificationAppGroupChatMemberRobotData {
+  return {
+    chat_id: CHAT_ID,
+    company_id: COMPANY_ID,
+    operator: { type: 'user', id: 'user_1' },
+    ...overrides,
+  };
+}
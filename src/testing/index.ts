@@ -0,0 +1,27 @@
+/**
+ * 测试工具模块导出
+ */
+
+// 模拟事件服务器
+export { MockEventServer, MockConnection } from './mock-server';
+export type {
+  MockEventServerOptions,
+  MockEventServerEventMap,
+  PushEventParams,
+  GoAwayOptions,
+} from './mock-server';
+
+// 事件消息构建
+export { encrypt, buildEventMessage, buildEvent } from './event-message';
+export type { EncryptParams, BuildEventMessageParams } from './event-message';
+
+// 事件数据模型工厂
+export {
+  buildV7ChatInfo,
+  buildV7MessageInfo,
+  buildV7AppChatMessageCreateData,
+  buildV7AppChatCreateData,
+  buildV7AppGroupChatData,
+  buildV7AppGroupChatMemberUserData,
+  buildV7AppGroupChatMemberRobotData,
+} from './factories';
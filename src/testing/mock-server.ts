@@ -0,0 +1,485 @@
+/**
+ * 本地模拟事件服务器
+ */
+
+import { EventEmitter } from 'node:events';
+import { createServer } from 'node:http';
+import type { IncomingHttpHeaders, IncomingMessage, Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import WebSocket, { WebSocketServer } from 'ws';
+import { verifyKso1 } from '../crypto';
+import { MESSAGE_TYPE_GOAWAY } from '../protocol/constants';
+import type { GoAwayReasonType } from '../protocol/constants';
+import type { AckMessage, EventMessage, GoAwayMessage } from '../protocol/messages';
+import { buildEventMessage } from './event-message';
+
+/**
+ * 模拟服务器选项
+ */
+export interface MockEventServerOptions {
+  /** 应用 ID，用于验证握手签名和签名事件 */
+  appId: string;
+
+  /** 应用密钥，用于验证握手签名、加密和签名事件 */
+  appSecret: string;
+
+  /**
+   * 监听端口，0 表示随机端口
+   * @default 0
+   */
+  port?: number;
+
+  /**
+   * WebSocket 路径
+   * @default '/v7/event/ws'
+   */
+  path?: string;
+
+  /**
+   * 发送 Ping 的间隔（毫秒）
+   * @default 30000
+   */
+  pingInterval?: number;
+
+  /**
+   * 握手 X-Kso-Date 允许的时间偏差（毫秒）
+   * @default 300000
+   */
+  clockSkew?: number;
+}
+
+/**
+ * 推送事件参数
+ */
+export interface PushEventParams {
+  /** 消息主题 */
+  topic: string;
+  /** 变更动作 */
+  operation: string;
+  /** 事件数据，对象会被序列化为 JSON */
+  data: string | object;
+  /** 随机数/iv 向量，默认随机生成 */
+  nonce?: string;
+  /** 时间戳（秒），默认当前时间 */
+  time?: number;
+}
+
+/**
+ * 发送 goaway 选项
+ */
+export interface GoAwayOptions {
+  /** 关闭消息 */
+  message?: string;
+  /** 建议重连时间（毫秒） */
+  reconnectMs?: number;
+  /**
+   * 发送后是否关闭连接
+   * @default true
+   */
+  close?: boolean;
+}
+
+/**
+ * 模拟服务器事件
+ */
+export interface MockEventServerEventMap {
+  /** 握手成功，建立新连接 */
+  connection: [connection: MockConnection];
+  /** 收到 ACK */
+  ack: [ack: AckMessage, connection: MockConnection];
+  /** 握手被拒绝 */
+  rejected: [statusCode: number, reason: string];
+  /** 连接关闭（未收到关闭帧时 code 为 1006） */
+  disconnect: [connection: MockConnection, code: number, reason: string];
+}
+
+/**
+ * 模拟服务器上的一个客户端连接
+ */
+export class MockConnection {
+  /** 连接序号（从 1 开始） */
+  readonly id: number;
+  /** 握手请求头 */
+  readonly headers: IncomingHttpHeaders;
+  /** 是否协商了 ACK 模式（X-Ack-Mode: required） */
+  readonly ackMode: boolean;
+  /** 已推送但尚未收到 ACK 的事件 nonce（仅 ACK 模式） */
+  readonly pendingAcks = new Set<string>();
+
+  private readonly socket: WebSocket;
+  private readonly server: MockEventServer;
+
+  /** @internal */
+  constructor(id: number, socket: WebSocket, req: IncomingMessage, server: MockEventServer) {
+    this.id = id;
+    this.socket = socket;
+    this.server = server;
+    this.headers = req.headers;
+    this.ackMode = req.headers['x-ack-mode'] === 'required';
+  }
+
+  /**
+   * 连接是否打开
+   */
+  get isOpen(): boolean {
+    return this.socket.readyState === WebSocket.OPEN;
+  }
+
+  /**
+   * 发送任意消息（对象会被序列化为 JSON）
+   */
+  send(message: string | object): void {
+    this.socket.send(typeof message === 'string' ? message : JSON.stringify(message));
+  }
+
+  /**
+   * 推送加密、签名后的事件
+   * @returns 推送的事件消息
+   */
+  pushEvent(params: PushEventParams): EventMessage {
+    const message = this.server.buildEventMessage(params);
+    this.sendEventMessage(message);
+    return message;
+  }
+
+  /**
+   * 推送已构建好的事件消息（可用于推送签名错误等异常消息）
+   */
+  sendEventMessage(message: EventMessage): void {
+    if (this.ackMode) {
+      this.pendingAcks.add(message.nonce);
+    }
+    this.send(message);
+  }
+
+  /**
+   * 发送 goaway 通知
+   */
+  goaway(reason: GoAwayReasonType, options: GoAwayOptions = {}): void {
+    const message: GoAwayMessage = {
+      type: MESSAGE_TYPE_GOAWAY,
+      reason,
+      message: options.message ?? reason,
+    };
+    if (options.reconnectMs !== undefined) {
+      message.reconnect_ms = options.reconnectMs;
+    }
+    this.send(message);
+
+    if (options.close ?? true) {
+      this.close(1000, 'goaway');
+    }
+  }
+
+  /**
+   * 以关闭帧正常关闭连接
+   */
+  close(code = 1000, reason = ''): void {
+    this.socket.close(code, reason);
+  }
+
+  /**
+   * 直接断开底层连接（不发送关闭帧），模拟网络中断
+   */
+  drop(): void {
+    this.socket.terminate();
+  }
+
+  /**
+   * 发送 Ping
+   */
+  ping(): void {
+    this.socket.ping();
+  }
+}
+
+/**
+ * 本地模拟事件服务器
+ *
+ * 基于 ws 实现开放平台事件推送协议，用于在测试中验证 Client 的握手、事件处理、ACK 和重连流程：
+ * - 验证 X-Kso-Authorization KSO-1 握手签名，失败时返回 401
+ * - 根据 X-Ack-Mode 协商 ACK 模式，记录收到的 ACK
+ * - 推送加密、签名后的事件，发送 goaway 通知，断开连接，停发 Ping
+ */
+export class MockEventServer extends EventEmitter<MockEventServerEventMap> {
+  /** 收到的所有 ACK */
+  readonly acks: AckMessage[] = [];
+
+  private readonly appId: string;
+  private readonly appSecret: string;
+  private readonly port: number;
+  private readonly path: string;
+  private readonly pingInterval: number;
+  private readonly clockSkew: number;
+  private readonly openConnections = new Set<MockConnection>();
+  private readonly rejections: number[] = [];
+  private httpServer: Server | null = null;
+  private wss: WebSocketServer | null = null;
+  private pingTimer: NodeJS.Timeout | null = null;
+  private pingsWithheld = false;
+  private connectionCount = 0;
+
+  constructor(options: MockEventServerOptions) {
+    super();
+    this.appId = options.appId;
+    this.appSecret = options.appSecret;
+    this.port = options.port ?? 0;
+    this.path = options.path ?? '/v7/event/ws';
+    this.pingInterval = options.pingInterval ?? 30000;
+    this.clockSkew = options.clockSkew ?? 300000;
+  }
+
+  /**
+   * 客户端连接地址，启动后可用
+   */
+  get endpoint(): string {
+    const address = this.httpServer?.address() as AddressInfo | null | undefined;
+    if (!address) {
+      throw new Error('Mock server is not started');
+    }
+    return `ws://127.0.0.1:${address.port}${this.path}`;
+  }
+
+  /**
+   * 当前打开的连接
+   */
+  get connections(): MockConnection[] {
+    return Array.from(this.openConnections);
+  }
+
+  /**
+   * 累计建立的连接数
+   */
+  get totalConnections(): number {
+    return this.connectionCount;
+  }
+
+  /**
+   * 启动服务器
+   */
+  async start(): Promise<void> {
+    const httpServer = createServer();
+    const wss = new WebSocketServer({
+      server: httpServer,
+      path: this.path,
+      verifyClient: (info, callback) => {
+        const [statusCode, reason] = this.verifyHandshake(info.req);
+        if (statusCode === 101) {
+          callback(true);
+          return;
+        }
+        this.emit('rejected', statusCode, reason);
+        callback(false, statusCode, reason);
+      },
+    });
+
+    wss.on('connection', (socket, req) => this.handleConnection(socket, req));
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(this.port, '127.0.0.1', () => {
+        httpServer.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.httpServer = httpServer;
+    this.wss = wss;
+    this.pingTimer = setInterval(() => {
+      if (!this.pingsWithheld) {
+        this.openConnections.forEach((connection) => connection.ping());
+      }
+    }, this.pingInterval);
+  }
+
+  /**
+   * 关闭服务器并断开所有连接
+   */
+  async close(): Promise<void> {
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+
+    this.dropConnections();
+
+    const wss = this.wss;
+    const httpServer = this.httpServer;
+    this.wss = null;
+    this.httpServer = null;
+
+    await new Promise<void>((resolve) => (wss ? wss.close(() => resolve()) : resolve()));
+    await new Promise<void>((resolve) =>
+      httpServer ? httpServer.close(() => resolve()) : resolve()
+    );
+  }
+
+  /**
+   * 让接下来的握手返回指定状态码（如 429、503），用于测试重连
+   * @param statusCode HTTP 状态码
+   * @param count 拒绝次数
+   */
+  rejectHandshakes(statusCode: number, count = 1): void {
+    for (let i = 0; i < count; i++) {
+      this.rejections.push(statusCode);
+    }
+  }
+
+  /**
+   * 停发（或恢复发送）Ping，用于测试客户端的 Pong 超时
+   */
+  withholdPings(withheld = true): void {
+    this.pingsWithheld = withheld;
+  }
+
+  /**
+   * 向所有连接推送事件
+   * @returns 推送的事件消息
+   */
+  pushEvent(params: PushEventParams): EventMessage {
+    const message = this.buildEventMessage(params);
+    this.openConnections.forEach((connection) => connection.sendEventMessage(message));
+    return message;
+  }
+
+  /**
+   * 向所有连接发送 goaway 通知
+   */
+  goaway(reason: GoAwayReasonType, options: GoAwayOptions = {}): void {
+    this.openConnections.forEach((connection) => connection.goaway(reason, options));
+  }
+
+  /**
+   * 直接断开所有连接（不发送关闭帧）
+   */
+  dropConnections(): void {
+    this.openConnections.forEach((connection) => connection.drop());
+    this.openConnections.clear();
+  }
+
+  /**
+   * 等待连接：已有打开的连接时立即返回最新的连接，否则等待下一个连接
+   */
+  waitForConnection(timeoutMs = 5000): Promise<MockConnection> {
+    const latest = this.connections.pop();
+    if (latest) {
+      return Promise.resolve(latest);
+    }
+    return this.waitFor('connection', () => true, timeoutMs).then(([connection]) => connection);
+  }
+
+  /**
+   * 等待指定 nonce 的 ACK，已收到时立即返回
+   */
+  waitForAck(nonce: string, timeoutMs = 5000): Promise<AckMessage> {
+    const received = this.acks.find((ack) => ack.nonce === nonce);
+    if (received) {
+      return Promise.resolve(received);
+    }
+    return this.waitFor('ack', (ack) => ack.nonce === nonce, timeoutMs).then(([ack]) => ack);
+  }
+
+  /**
+   * 使用服务器的应用凭证构建事件消息
+   * @internal
+   */
+  buildEventMessage(params: PushEventParams): EventMessage {
+    return buildEventMessage({ ...params, appId: this.appId, appSecret: this.appSecret });
+  }
+
+  /**
+   * 验证握手请求
+   * @returns [状态码, 原因]，101 表示通过
+   */
+  private verifyHandshake(req: IncomingMessage): [number, string] {
+    const rejection = this.rejections.shift();
+    if (rejection !== undefined) {
+      return [rejection, 'Rejected by mock server'];
+    }
+
+    try {
+      verifyKso1(
+        req.headers,
+        { method: 'GET', uri: req.url ?? '' },
+        {
+          appSecret: (appId) => (appId === this.appId ? this.appSecret : undefined),
+          clockSkew: this.clockSkew,
+        }
+      );
+    } catch (error) {
+      return [401, error instanceof Error ? error.message : String(error)];
+    }
+
+    return [101, 'Switching Protocols'];
+  }
+
+  /**
+   * 处理新连接
+   */
+  private handleConnection(socket: WebSocket, req: IncomingMessage): void {
+    const connection = new MockConnection(++this.connectionCount, socket, req, this);
+    this.openConnections.add(connection);
+
+    socket.on('message', (data: Buffer) => {
+      let message: Partial<AckMessage>;
+      try {
+        message = JSON.parse(data.toString('utf-8')) as Partial<AckMessage>;
+      } catch {
+        return;
+      }
+      if (message.type !== 'ack' || typeof message.nonce !== 'string') {
+        return;
+      }
+
+      const ack = message as AckMessage;
+      connection.pendingAcks.delete(ack.nonce);
+      this.acks.push(ack);
+      this.emit('ack', ack, connection);
+    });
+
+    socket.on('close', (code: number, reason: Buffer) => {
+      this.openConnections.delete(connection);
+      this.emit('disconnect', connection, code, reason.toString('utf-8'));
+    });
+
+    this.emit('connection', connection);
+  }
+
+  /**
+   * 等待满足条件的事件
+   */
+  private waitFor<K extends keyof MockEventServerEventMap>(
+    name: K,
+    predicate: (...args: MockEventServerEventMap[K]) => boolean,
+    timeoutMs: number
+  ): Promise<MockEventServerEventMap[K]> {
+    return waitForEvent(this, name, predicate, timeoutMs);
+  }
+}
+
+/**
+ * 等待 emitter 上满足条件的事件
+ *
+ * 泛型事件名下 @types/node 的监听器类型无法展开，因此按普通 EventEmitter 注册监听器
+ */
+function waitForEvent<Args extends unknown[]>(
+  emitter: EventEmitter,
+  name: string,
+  predicate: (...args: Args) => boolean,
+  timeoutMs: number
+): Promise<Args> {
+  return new Promise((resolve, reject) => {
+    const listener = (...args: Args) => {
+      if (predicate(...args)) {
+        clearTimeout(timer);
+        emitter.off(name, listener);
+        resolve(args);
+      }
+    };
+    const timer = setTimeout(() => {
+      emitter.off(name, listener);
+      reject(new Error(`Timeout waiting for ${name}`));
+    }, timeoutMs);
+    emitter.on(name, listener);
+  });
+}
@@ -4,7 +4,13 @@
 
 import type { Handler } from './event/handler';
 import type { Dispatcher } from './event/dispatcher';
+import type { OrderingKeyFunc } from './event/ordering';
+import type { DedupStore } from './dedup/store';
+import type { DeadLetterSink } from './deadletter/sink';
+import type { EventRecorder } from './recorder/recorder';
+import type { AppSecretSource } from './secret/provider';
 import type { Logger, LogLevel } from './logger/interface';
+import type { AckMessage, GoAwayMessage } from './protocol/messages';
 
 /**
  * Client 配置选项
@@ -17,8 +23,17 @@ export interface ClientOptions {
 
   /**
    * 应用密钥
+   * 密钥轮换期间可传入多个密钥：第一个为当前密钥（用于建立连接），其余为仍被接受的旧密钥，
+   * 验签时依次尝试，使用验签通过的密钥解密。
+   * 也可传入异步密钥提供者：每次握手前调用，验签、解密时使用缓存的结果（见 secretCacheTtl）
    */
-  appSecret: string;
+  appSecret: AppSecretSource;
+
+  /**
+   * 密钥提供者结果的缓存时间（毫秒），仅在 appSecret 为密钥提供者时生效
+   * @default 300000
+   */
+  secretCacheTtl?: number;
 
   /**
    * WebSocket 端点
@@ -91,6 +106,100 @@ export interface ClientOptions {
    */
   ackMode?: boolean;
 
+  /**
+   * 允许的最大事件年龄（毫秒），0 表示不检查
+   * 事件时间（EventMessage.time）早于该窗口或晚于当前时间的事件会被拒绝（ReplayError）
+   * 建议同时设置 dedupStore，且其 TTL 不小于该值
+   * @default 0
+   */
+  maxEventAge?: number;
+
+  /**
+   * 检查事件时间时允许的时钟偏差（毫秒）
+   * @default 60000
+   */
+  clockSkewTolerance?: number;
+
+  /**
+   * 事件处理超时（毫秒），0 表示不限制
+   * 超时后发送失败 ACK（code=500, msg="handler timeout"），并通过 context.signal 通知处理器取消
+   * 可通过 Dispatcher 注册选项按事件编码覆盖
+   * 超时后立即释放并发槽位，但 SDK 无法强制终止处理器：忽略 signal 的处理器会继续运行，
+   * 此时实际并发数可能超过 concurrency
+   * @default 0
+   */
+  handlerTimeout?: number;
+
+  /**
+   * 是否启用手动 ACK 模式（需同时启用 ackMode，未启用时忽略并输出警告日志）
+   * 启用后处理器返回时不会自动发送成功 ACK，需通过 context.ackControl 调用 ack() / nack()；
+   * 处理器抛出异常且未确认时自动发送失败 ACK；处理器返回后即释放并发槽位，不必等待确认
+   * @default false
+   */
+  manualAck?: boolean;
+
+  /**
+   * 手动 ACK 模式下的确认截止时间（毫秒）
+   * 超时未确认的事件会自动发送失败 ACK 并输出警告日志
+   * @default 60000
+   */
+  ackDeadline?: number;
+
+  /**
+   * 事件处理重试策略
+   * 设置后，处理器失败时先在进程内按指数退避重试，全部失败后才发送失败 ACK
+   */
+  retry?: RetryPolicy;
+
+  /**
+   * 最大并发处理事件数，-1 表示不限制
+   * @default -1
+   */
+  concurrency?: number;
+
+  /**
+   * 等待处理的事件队列容量（仅在 concurrency 生效时有意义）
+   * 仅对 drop 和 pause 策略生效，wait 策略下队列不受此容量限制
+   * @default 1000
+   */
+  queueSize?: number;
+
+  /**
+   * 队列已满时的处理策略
+   * - wait: 事件继续在内存中排队，直到有空闲的处理槽位（队列无上限，不受 queueSize 限制）
+   * - drop: 丢弃事件并发送失败 ACK，由服务端重新投递
+   * - pause: 暂停读取 WebSocket 数据，队列有空位后恢复；暂停期间挂起 Pong 超时检测
+   * @default 'wait'
+   */
+  queueFullPolicy?: QueueFullPolicy;
+
+  /**
+   * 按 key 顺序处理事件
+   * 相同 key 的事件串行处理，不同 key 的事件仍可并发处理
+   * - true: 使用默认 key（会话 ID，即 chat.id / chat_id）
+   * - 函数: 自定义 key 提取函数，返回 undefined 表示该事件无需保序
+   * @default false
+   */
+  ordering?: boolean | OrderingKeyFunc;
+
+  /**
+   * 事件去重存储
+   * 设置后，已成功处理过的 nonce 再次投递时直接回复成功 ACK，不再调用处理器
+   */
+  dedupStore?: DedupStore;
+
+  /**
+   * 死信存储
+   * 设置后，处理失败的事件（解密后）会被写入死信存储，可通过 Client.redrive() 重新处理
+   */
+  deadLetterSink?: DeadLetterSink;
+
+  /**
+   * 原始事件录制器
+   * 设置后，收到的原始事件消息（验签、解密前）会被写入录制文件，可通过 Client.replay() 回放
+   */
+  recorder?: EventRecorder;
+
   /**
    * 单一事件处理器
    * 与 dispatcher 二选一
@@ -105,17 +214,151 @@ export interface ClientOptions {
 }
 
 /**
- * 重连配置
+ * 队列已满时的处理策略
  */
-export interface ReconnectConfig {
-  autoReconnect: boolean;
+export type QueueFullPolicy = 'wait' | 'drop' | 'pause';
+
+/**
+ * 队列配置
+ */
+export interface QueueConfig {
+  concurrency: number;
+  queueSize: number;
+  queueFullPolicy: QueueFullPolicy;
+}
+
+/**
+ * Client 运行统计
+ */
+export interface ClientStats {
+  /** 正在执行的事件处理数 */
+  running: number;
+  /** 排队等待处理的事件数 */
+  queued: number;
+  /** 累计丢弃的事件数 */
+  dropped: number;
+  /** 累计识别出的重复投递事件数 */
+  duplicates: number;
+  /** 手动 ACK 模式下等待确认的事件数 */
+  pendingAcks: number;
+}
+
+/**
+ * Client.redrive() 结果
+ */
+export interface RedriveResult {
+  /** 满足过滤条件的死信数 */
+  total: number;
+  /** 重新处理成功（已从存储中删除）的死信数 */
+  succeeded: number;
+  /** 重新处理失败的死信数 */
+  failed: number;
+  /** 已处理成功过（dedupStore 中已存在）而直接删除的死信数 */
+  skipped: number;
+}
+
+/**
+ * Client.replay() 结果
+ */
+export interface ReplayResult {
+  /** 回放的事件数 */
+  total: number;
+  /** 处理成功的事件数 */
+  succeeded: number;
+  /** 处理失败的事件数 */
+  failed: number;
+  /** 验签或解密失败而丢弃的事件数 */
+  dropped: number;
+}
+
+/**
+ * Client.stop() 选项
+ */
+export interface StopOptions {
+  /**
+   * 等待处理中事件完成的最长时间（毫秒）
+   * @default 10000
+   */
+  drainTimeoutMs?: number;
+}
+
+/**
+ * Client.stop() 结果
+ */
+export interface StopResult {
+  /** 停止时已完成（并发送 ACK）的处理中事件数 */
+  completed: number;
+  /** 超时后被放弃的处理中事件数 */
+  abandoned: number;
+}
+
+/**
+ * 指数退避配置
+ */
+export interface BackoffConfig {
   baseInterval: number;
   maxInterval: number;
   multiplier: number;
-  maxRetry: number;
   jitter: number;
 }
 
+/**
+ * 重连配置
+ */
+export interface ReconnectConfig extends BackoffConfig {
+  autoReconnect: boolean;
+  maxRetry: number;
+}
+
+/**
+ * 事件处理重试策略
+ */
+export interface RetryPolicy {
+  /** 最大处理次数（包括首次处理） */
+  maxAttempts: number;
+
+  /**
+   * 重试基础间隔（毫秒）
+   * @default 1000
+   */
+  baseInterval?: number;
+
+  /**
+   * 重试最大间隔（毫秒）
+   * @default 30000
+   */
+  maxInterval?: number;
+
+  /**
+   * 重试间隔倍数
+   * @default 2.0
+   */
+  multiplier?: number;
+
+  /**
+   * 重试抖动系数（0-1）
+   * @default 0.2
+   */
+  jitter?: number;
+
+  /**
+   * 判断错误是否可重试
+   * 默认除处理超时（HandlerTimeoutError）和 AckError 外的错误均可重试；
+   * 多个处理器失败（HandlerAggregateError）时，任一错误可重试即重试
+   * @param error 处理器抛出的错误
+   * @param attempt 本次处理次数（从 1 开始）
+   */
+  retryable?: (error: Error, attempt: number) => boolean;
+}
+
+/**
+ * 重试配置
+ */
+export interface RetryConfig extends BackoffConfig {
+  maxAttempts: number;
+  retryable: (error: Error, attempt: number) => boolean;
+}
+
 /**
  * 超时配置
  */
@@ -123,3 +366,91 @@ export interface TimeoutConfig {
   writeTimeout: number;
   pongTimeout: number;
 }
+
+/**
+ * 开始连接事件信息
+ */
+export interface ConnectingInfo {
+  /** WebSocket 端点 */
+  endpoint: string;
+  /** 重连次数（首次连接为 0） */
+  attempt: number;
+}
+
+/**
+ * 连接成功事件信息
+ */
+export interface ConnectedInfo {
+  /** WebSocket 端点 */
+  endpoint: string;
+}
+
+/**
+ * 连接断开事件信息
+ */
+export interface DisconnectedInfo {
+  /** WebSocket 关闭码 */
+  code: number;
+  /** 关闭原因 */
+  reason: string;
+  /** 是否由 GoAway 消息引起 */
+  goaway: boolean;
+}
+
+/**
+ * 重连事件信息
+ */
+export interface ReconnectingInfo {
+  /** 当前重试次数（从 1 开始） */
+  attempt: number;
+  /** 本次等待时间（毫秒） */
+  delay: number;
+}
+
+/**
+ * 事件丢弃原因
+ */
+export type EventDropReason =
+  | 'invalid_message'
+  | 'invalid_signature'
+  | 'decrypt_failed'
+  | 'client_stopping'
+  | 'queue_full'
+  | 'replay'
+  | 'secret_unavailable';
+
+/**
+ * 事件丢弃信息
+ */
+export interface EventDroppedInfo {
+  /** 丢弃原因 */
+  reason: EventDropReason;
+  /** 事件编码（无法解析时为空） */
+  eventCode?: string;
+  /** 事件 nonce（无法解析时为空） */
+  nonce?: string;
+  /** 导致丢弃的错误 */
+  error?: Error;
+}
+
+/**
+ * Client 生命周期事件
+ */
+export interface ClientEventMap {
+  /** 开始建立连接 */
+  connecting: [info: ConnectingInfo];
+  /** 连接建立成功 */
+  connected: [info: ConnectedInfo];
+  /** 连接断开 */
+  disconnected: [info: DisconnectedInfo];
+  /** 即将重连 */
+  reconnecting: [info: ReconnectingInfo];
+  /** 收到 GoAway 消息 */
+  goaway: [message: GoAwayMessage];
+  /** ACK 发送成功 */
+  ackSent: [ack: AckMessage];
+  /** 事件被丢弃（未交给处理器） */
+  eventDropped: [info: EventDroppedInfo];
+  /** 发生错误（仅在有监听器时触发） */
+  error: [error: Error];
+}
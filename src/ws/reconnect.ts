@@ -2,7 +2,7 @@
  * 重连策略
  */
 
-import type { ReconnectConfig } from '../types';
+import type { BackoffConfig, ReconnectConfig } from '../types';
 
 /**
  * 计算带抖动的退避时间
@@ -10,11 +10,11 @@ import type { ReconnectConfig } from '../types';
  * 重连间隔公式:
  * interval = min(baseInterval * multiplier^(retryCount-1), maxInterval) * (1 ± jitter)
  *
- * @param config 重连配置
+ * @param config 退避配置
  * @param retryCount 当前重试次数（从 1 开始）
  * @returns 等待时间（毫秒）
  */
-export function calculateBackoff(config: ReconnectConfig, retryCount: number): number {
+export function calculateBackoff(config: BackoffConfig, retryCount: number): number {
   const { baseInterval, maxInterval, multiplier, jitter } = config;
 
   // 计算基础间隔（指数增长）
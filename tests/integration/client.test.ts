@@ -0,0 +1,1158 @@
+/**
+ * Client 集成测试（基于本地模拟服务器）
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { once } from 'node:events';
+import { Client } from '../../src/client';
+import type { ClientOptions } from '../../src/types';
+import { Dispatcher } from '../../src/event';
+import type { AckControl, Event } from '../../src/event';
+import { NopLogger } from '../../src/logger';
+import {
+  AckError,
+  ClientClosedError,
+  ClientError,
+  HandlerTimeoutError,
+  ReplayError,
+  SecretProviderError,
+} from '../../src/errors';
+import { AckCode, GoAwayReason } from '../../src/protocol';
+import { md5 } from '../../src/crypto';
+import { MemoryDedupStore } from '../../src/dedup';
+import type { DeadLetter, DeadLetterSink } from '../../src/deadletter';
+import { MockEventServer, buildEventMessage } from '../../src/testing';
+import type { MockConnection } from '../../src/testing';
+
+const APP_ID = 'test_app_id';
+const APP_SECRET = 'test_app_secret';
+
+describe('Client integration', () => {
+  let server: MockEventServer;
+  let client: Client | null;
+  let running: Promise<void> | null;
+  let received: Event[];
+
+  /**
+   * 创建连接到模拟服务器的客户端
+   */
+  function createClient(options: Partial<ClientOptions> = {}): Client {
+    client = new Client({
+      appId: APP_ID,
+      appSecret: APP_SECRET,
+      endpoint: server.endpoint,
+      logger: new NopLogger(),
+      reconnectBaseInterval: 10,
+      reconnectMaxInterval: 50,
+      reconnectJitter: 0,
+      handler: {
+        handle(event) {
+          received.push(event);
+        },
+      },
+      ...options,
+    });
+    return client;
+  }
+
+  /**
+   * 启动客户端并等待连接建立，返回 start() 的 Promise
+   */
+  async function startClient(c: Client): Promise<{ running: Promise<void> }> {
+    const connected = new Promise((resolve) => c.once('connected', resolve));
+    running = c.start();
+    await connected;
+    return { running };
+  }
+
+  beforeEach(async () => {
+    received = [];
+    client = null;
+    running = null;
+    server = new MockEventServer({ appId: APP_ID, appSecret: APP_SECRET, pingInterval: 50 });
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await client?.stop({ drainTimeoutMs: 100 });
+    // 重连等待中被停止时 start() 以 ClientClosedError 结束
+    await running?.catch(() => undefined);
+    await server.close();
+  });
+
+  describe('handshake', () => {
+    it('should connect with KSO-1 signature and negotiate ACK mode', async () => {
+      await startClient(createClient());
+
+      const connection = await server.waitForConnection();
+      expect(connection.ackMode).toBe(true);
+      expect(connection.headers['x-kso-authorization']).toMatch(/^KSO-1 test_app_id:/);
+    });
+
+    it('should not negotiate ACK mode when disabled', async () => {
+      await startClient(createClient({ ackMode: false }));
+
+      const connection = await server.waitForConnection();
+      expect(connection.ackMode).toBe(false);
+    });
+
+    it('should fail with client error on invalid credentials', async () => {
+      const c = createClient({ appSecret: 'wrong_secret' });
+
+      await expect(c.start()).rejects.toBeInstanceOf(ClientError);
+      expect(server.totalConnections).toBe(0);
+    });
+
+    it('should close connection opened after stop during handshake', async () => {
+      const c = createClient();
+      const opened = new Promise<MockConnection>((resolve) =>
+        server.once('connection', (connection) => {
+          // 服务端完成握手时客户端尚未收到响应，此时停止
+          void c.stop();
+          resolve(connection);
+        })
+      );
+
+      await expect(c.start()).rejects.toBeInstanceOf(ClientClosedError);
+      const connection = await opened;
+      await vi.waitFor(() => expect(connection.isOpen).toBe(false));
+    });
+
+    it('should not reconnect when stopped during handshake', async () => {
+      const c = createClient();
+      const reconnecting: number[] = [];
+      c.on('reconnecting', ({ attempt }) => reconnecting.push(attempt));
+      server.once('connection', () => void c.stop());
+
+      await expect(c.start()).rejects.toBeInstanceOf(ClientClosedError);
+      expect(reconnecting).toEqual([]);
+    });
+
+    it('should stop retrying when stopped during reconnect handshake', async () => {
+      server.rejectHandshakes(503, 1);
+      const c = createClient();
+      const errors: Error[] = [];
+      c.on('error', (error) => errors.push(error));
+      server.once('connection', () => void c.stop());
+
+      await expect(c.start()).rejects.toBeInstanceOf(ClientClosedError);
+      expect(errors).toEqual([]);
+      expect(server.totalConnections).toBe(1);
+    });
+  });
+
+  describe('ack', () => {
+    it('should decrypt event and send success ack', async () => {
+      await startClient(createClient());
+      await server.waitForConnection();
+
+      const message = server.pushEvent({
+        topic: 'kso.app_chat.message',
+        operation: 'create',
+        data: { key: 'value' },
+      });
+
+      const ack = await server.waitForAck(message.nonce);
+      expect(ack.code).toBe(AckCode.SUCCESS);
+      expect(received).toHaveLength(1);
+      expect(received[0]?.eventCode).toBe('kso.app_chat.message.create');
+      expect(JSON.parse(received[0]?.data ?? '')).toEqual({ key: 'value' });
+    });
+
+    it('should send failure ack when handler throws', async () => {
+      await startClient(
+        createClient({
+          handler: {
+            handle() {
+              throw new Error('Handler error');
+            },
+          },
+        })
+      );
+      const connection = await server.waitForConnection();
+
+      const message = connection.pushEvent({ topic: 'test', operation: 'event', data: '{}' });
+
+      const ack = await server.waitForAck(message.nonce);
+      expect(ack.code).toBe(AckCode.FAILED);
+      expect(ack.msg).toBe('Handler error');
+      expect(connection.pendingAcks.size).toBe(0);
+    });
+
+    it('should ack malformed payload skipped by typed filters', async () => {
+      const handler = vi.fn();
+      const dispatcher = new Dispatcher().onV7AppChatMessageCreate(handler, {
+        chatType: 'group',
+      });
+      await startClient(createClient({ handler: undefined, dispatcher }));
+      const connection = await server.waitForConnection();
+
+      const message = connection.pushEvent({
+        topic: 'kso.app_chat.message',
+        operation: 'create',
+        data: { company_id: 'x' },
+      });
+
+      expect((await server.waitForAck(message.nonce)).code).toBe(AckCode.SUCCESS);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should aggregate failures of multiple handlers into one ack', async () => {
+      const dispatcher = new Dispatcher()
+        .registerFunc('test.event', () => Promise.reject(AckError.reject('unsupported')))
+        .registerFunc('test.event', () => Promise.reject(AckError.reject('invalid')));
+      await startClient(createClient({ handler: undefined, dispatcher }));
+      await server.waitForConnection();
+
+      const message = server.pushEvent({ topic: 'test', operation: 'event', data: '{}' });
+
+      const ack = await server.waitForAck(message.nonce);
+      expect(ack.code).toBe(AckCode.REJECTED);
+      expect(ack.msg).toBe('2 handlers failed: unsupported; invalid');
+    });
+
+    it('should not send ack without ACK mode', async () => {
+      await startClient(createClient({ ackMode: false }));
+      await server.waitForConnection();
+
+      server.pushEvent({ topic: 'test', operation: 'event', data: '{}' });
+      const second = server.pushEvent({ topic: 'test', operation: 'event', data: '{}' });
+
+      await expect(server.waitForAck(second.nonce, 200)).rejects.toThrow('Timeout');
+      expect(received).toHaveLength(2);
+      expect(server.acks).toHaveLength(0);
+    });
+  });
+
+  describe('reconnect', () => {
+    it('should reconnect after connection dropped', async () => {
+      const c = createClient();
+      await startClient(c);
+      await server.waitForConnection();
+
+      const reconnected = once(server, 'connection');
+      server.dropConnections();
+      await reconnected;
+
+      const message = server.pushEvent({ topic: 'test', operation: 'event', data: '{}' });
+      expect((await server.waitForAck(message.nonce)).code).toBe(AckCode.SUCCESS);
+      expect(server.totalConnections).toBe(2);
+    });
+
+    it('should reconnect after server_shutdown goaway', async () => {
+      const c = createClient();
+      await startClient(c);
+      await server.waitForConnection();
+
+      const goaway = once(c, 'goaway');
+      const reconnected = once(server, 'connection');
+      server.goaway(GoAwayReason.SERVER_SHUTDOWN, { reconnectMs: 10 });
+
+      const [msg] = await goaway;
+      expect(msg).toMatchObject({ type: 'goaway', reason: GoAwayReason.SERVER_SHUTDOWN });
+      await reconnected;
+      expect(server.totalConnections).toBe(2);
+    });
+
+    it('should not reconnect after connection_replaced goaway', async () => {
+      const c = createClient();
+      const { running } = await startClient(c);
+      await server.waitForConnection();
+
+      server.goaway(GoAwayReason.CONNECTION_REPLACED);
+
+      await running;
+      expect(server.totalConnections).toBe(1);
+    });
+
+    it('should reconnect when pings are withheld', async () => {
+      const c = createClient({ pongTimeout: 150 });
+      await startClient(c);
+      await server.waitForConnection();
+
+      server.withholdPings();
+      const disconnected = once(c, 'disconnected');
+      const reconnected = once(server, 'connection');
+
+      await disconnected;
+      server.withholdPings(false);
+      await reconnected;
+      expect(server.totalConnections).toBe(2);
+    });
+
+    it('should retry when handshake is rejected by server error', async () => {
+      server.rejectHandshakes(503, 2);
+      const c = createClient();
+      const reconnecting: number[] = [];
+      const errors: Error[] = [];
+      c.on('reconnecting', ({ attempt }) => reconnecting.push(attempt));
+      c.on('error', (error) => errors.push(error));
+
+      await startClient(c);
+
+      expect(reconnecting).toEqual([1, 2]);
+      expect(errors).toHaveLength(1);
+      expect(server.totalConnections).toBe(1);
+    });
+  });
+
+  describe('secret rotation', () => {
+    const NEW_SECRET = 'test_app_secret_new';
+
+    it('should connect with current secret and accept events signed by previous secret', async () => {
+      await server.close();
+      server = new MockEventServer({ appId: APP_ID, appSecret: NEW_SECRET, pingInterval: 50 });
+      await server.start();
+      await startClient(createClient({ appSecret: [NEW_SECRET, APP_SECRET] }));
+      const connection = await server.waitForConnection();
+
+      const current = connection.pushEvent({ topic: 'test', operation: 'current', data: '{}' });
+      const previous = buildEventMessage({
+        topic: 'test',
+        operation: 'previous',
+        data: { key: 'value' },
+        appId: APP_ID,
+        appSecret: APP_SECRET,
+      });
+      connection.sendEventMessage(previous);
+
+      expect((await server.waitForAck(current.nonce)).code).toBe(AckCode.SUCCESS);
+      expect((await server.waitForAck(previous.nonce)).code).toBe(AckCode.SUCCESS);
+      expect(received.map((event) => event.eventCode)).toEqual(['test.current', 'test.previous']);
+      expect(JSON.parse(received[1]?.data ?? '')).toEqual({ key: 'value' });
+    });
+
+    it('should log matched secret index without leaking decryption key', async () => {
+      await server.close();
+      server = new MockEventServer({ appId: APP_ID, appSecret: NEW_SECRET, pingInterval: 50 });
+      await server.start();
+      const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+      await startClient(createClient({ appSecret: [NEW_SECRET, APP_SECRET], logger }));
+      const connection = await server.waitForConnection();
+
+      const message = buildEventMessage({
+        topic: 'test',
+        operation: 'event',
+        data: '{}',
+        appId: APP_ID,
+        appSecret: APP_SECRET,
+      });
+      connection.sendEventMessage(message);
+      await server.waitForAck(message.nonce);
+
+      const logs = [...logger.debug.mock.calls, ...logger.info.mock.calls].flat().map(String);
+      const matched = logs.find((log) => log.includes('Event opened with previous app secret #1'));
+      expect(matched).toBeDefined();
+      expect(logs.join('\n')).not.toContain(md5(APP_SECRET).slice(0, 8));
+    });
+
+    it('should drop events signed by unknown secret', async () => {
+      const c = createClient({ appSecret: [APP_SECRET, 'test_app_secret_old'] });
+      const dropped: string[] = [];
+      c.on('eventDropped', ({ reason }) => dropped.push(reason));
+      await startClient(c);
+      const connection = await server.waitForConnection();
+
+      const message = buildEventMessage({
+        topic: 'test',
+        operation: 'event',
+        data: '{}',
+        appId: APP_ID,
+        appSecret: 'unknown_secret',
+      });
+      connection.sendEventMessage(message);
+      const next = connection.pushEvent({ topic: 'test', operation: 'event', data: '{}' });
+
+      await server.waitForAck(next.nonce);
+      expect(dropped).toEqual(['invalid_signature']);
+      expect(received).toHaveLength(1);
+    });
+
+    it('should call secret provider before every handshake', async () => {
+      const provider = vi.fn().mockResolvedValue(APP_SECRET);
+      const c = createClient({ appSecret: provider });
+      await startClient(c);
+      await server.waitForConnection();
+
+      const reconnected = once(server, 'connection');
+      server.dropConnections();
+      await reconnected;
+
+      expect(provider).toHaveBeenCalledTimes(2);
+    });
+
+    it('should verify events with secrets loaded by provider', async () => {
+      let secrets = [APP_SECRET];
+      const c = createClient({ appSecret: () => Promise.resolve(secrets), secretCacheTtl: 0 });
+      await startClient(c);
+      const connection = await server.waitForConnection();
+
+      // 轮换后服务端仍使用旧密钥签名的事件
+      secrets = [NEW_SECRET, APP_SECRET];
+      const first = connection.pushEvent({ topic: 'test', operation: 'first', data: '{}' });
+      const second = connection.pushEvent({ topic: 'test', operation: 'second', data: '{}' });
+
+      expect((await server.waitForAck(first.nonce)).code).toBe(AckCode.SUCCESS);
+      expect((await server.waitForAck(second.nonce)).code).toBe(AckCode.SUCCESS);
+      expect(received.map((event) => event.eventCode)).toEqual(['test.first', 'test.second']);
+    });
+
+    it('should fail with client error when secret provider fails on start', async () => {
+      const c = createClient({
+        appSecret: () => Promise.reject(new Error('vault unavailable')),
+      });
+
+      await expect(c.start()).rejects.toBeInstanceOf(SecretProviderError);
+      expect(server.totalConnections).toBe(0);
+    });
+
+    it('should reconnect with cached secrets when secret provider fails', async () => {
+      const provider = vi
+        .fn()
+        .mockResolvedValueOnce(APP_SECRET)
+        .mockRejectedValueOnce(new Error('vault unavailable'));
+      const c = createClient({ appSecret: provider });
+      const errors: Error[] = [];
+      c.on('error', (error) => errors.push(error));
+      await startClient(c);
+      await server.waitForConnection();
+
+      // events.once 收到 error 事件会 reject，这里只等待 connected
+      const reconnected = new Promise((resolve) => c.once('connected', resolve));
+      server.dropConnections();
+      await reconnected;
+
+      expect(provider).toHaveBeenCalledTimes(2);
+      expect(errors).toEqual([expect.any(SecretProviderError)]);
+      expect(server.totalConnections).toBe(2);
+    });
+
+    it('should verify events with cached secrets when secret provider fails', async () => {
+      const provider = vi
+        .fn()
+        .mockResolvedValueOnce(APP_SECRET)
+        .mockRejectedValueOnce(new Error('vault unavailable'));
+      const c = createClient({ appSecret: provider, secretCacheTtl: 0 });
+      const dropped = vi.fn();
+      const errors: Error[] = [];
+      c.on('eventDropped', dropped);
+      c.on('error', (error) => errors.push(error));
+      await startClient(c);
+      const connection = await server.waitForConnection();
+
+      const message = connection.pushEvent({ topic: 'test', operation: 'event', data: '{}' });
+
+      expect((await server.waitForAck(message.nonce)).code).toBe(AckCode.SUCCESS);
+      expect(provider).toHaveBeenCalledTimes(2);
+      expect(errors).toEqual([expect.any(SecretProviderError)]);
+      expect(errors[0]?.message).toBe('Secret provider failed: vault unavailable');
+      expect(dropped).not.toHaveBeenCalled();
+      expect(received).toHaveLength(1);
+    });
+
+    it('should reject empty secret list', () => {
+      expect(() => createClient({ appSecret: [] })).toThrow('appSecret must not be empty');
+    });
+  });
+
+  describe('lifecycle events', () => {
+    it('should emit connecting and connected on start', async () => {
+      const c = createClient();
+      const connecting: unknown[] = [];
+      c.on('connecting', (info) => connecting.push(info));
+
+      await startClient(c);
+
+      expect(connecting).toEqual([{ endpoint: server.endpoint, attempt: 0 }]);
+    });
+
+    it('should emit goaway, disconnected, reconnecting and connecting on goaway', async () => {
+      const c = createClient();
+      await startClient(c);
+      await server.waitForConnection();
+      const events: unknown[] = [];
+      c.on('goaway', (msg) => events.push(['goaway', msg.reason]));
+      c.on('disconnected', (info) => events.push(['disconnected', info]));
+      c.on('reconnecting', (info) => events.push(['reconnecting', info]));
+      c.on('connecting', (info) => events.push(['connecting', info.attempt]));
+      c.on('connected', () => events.push(['connected']));
+
+      const reconnected = once(c, 'connected');
+      server.goaway(GoAwayReason.SERVER_SHUTDOWN, { reconnectMs: 20 });
+      await reconnected;
+
+      expect(events).toEqual([
+        ['goaway', GoAwayReason.SERVER_SHUTDOWN],
+        ['disconnected', { code: 1000, reason: 'goaway', goaway: true }],
+        ['reconnecting', { attempt: 1, delay: 20 }],
+        ['connecting', 1],
+        ['connected'],
+      ]);
+    });
+
+    it('should emit disconnected without goaway when connection dropped', async () => {
+      const c = createClient();
+      await startClient(c);
+      await server.waitForConnection();
+
+      const disconnected = once(c, 'disconnected');
+      server.dropConnections();
+
+      const [info] = await disconnected;
+      expect(info).toMatchObject({ code: 1006, goaway: false });
+    });
+
+    it('should emit ackSent for each ack', async () => {
+      const c = createClient();
+      const acks: unknown[] = [];
+      c.on('ackSent', (ack) => acks.push(ack));
+      await startClient(c);
+      await server.waitForConnection();
+
+      const message = server.pushEvent({ topic: 'test', operation: 'event', data: '{}' });
+      await server.waitForAck(message.nonce);
+
+      expect(acks).toEqual([{ type: 'ack', nonce: message.nonce, code: AckCode.SUCCESS }]);
+    });
+
+    it('should emit eventDropped for invalid messages', async () => {
+      const c = createClient();
+      const dropped: unknown[] = [];
+      c.on('eventDropped', (info) => dropped.push(info));
+      await startClient(c);
+      const connection = await server.waitForConnection();
+
+      connection.send({ topic: '', operation: 'event' });
+      connection.send('not json');
+      const tampered = {
+        ...server.buildEventMessage({ topic: 'test', operation: 'event', data: '{}' }),
+      };
+      tampered.signature = 'invalid';
+      connection.sendEventMessage(tampered);
+      const next = connection.pushEvent({ topic: 'test', operation: 'event', data: '{}' });
+      await server.waitForAck(next.nonce);
+
+      expect(dropped).toEqual([
+        { reason: 'invalid_message' },
+        { reason: 'invalid_message', error: expect.any(SyntaxError) },
+        { reason: 'invalid_signature', eventCode: 'test.event', nonce: tampered.nonce },
+      ]);
+      expect(c.getStats().dropped).toBe(3);
+    });
+  });
+
+  describe('stop', () => {
+    it('should drain in-flight events, ack them and close with 1000', async () => {
+      const started: string[] = [];
+      let abortReason: unknown;
+      let release = (): void => undefined;
+      const released = new Promise<void>((resolve) => (release = resolve));
+      const c = createClient({
+        handler: {
+          async handle(event, context) {
+            started.push(event.eventCode);
+            if (event.eventCode === 'test.fast') {
+              await released;
+              return;
+            }
+            // 忽略取消信号之前一直挂起，直到 drain 超时
+            await new Promise<void>((resolve) => {
+              context?.signal.addEventListener('abort', () => {
+                abortReason = context.signal.reason;
+                resolve();
+              });
+            });
+          },
+        },
+      });
+      await startClient(c);
+      const connection = await server.waitForConnection();
+
+      const fast = connection.pushEvent({ topic: 'test', operation: 'fast', data: '{}' });
+      const slow = connection.pushEvent({ topic: 'test', operation: 'slow', data: '{}' });
+      await vi.waitFor(() => expect(started).toHaveLength(2));
+
+      const disconnect = once(server, 'disconnect');
+      const stopping = c.stop({ drainTimeoutMs: 100 });
+      release();
+      const result = await stopping;
+      const [, code, reason] = await disconnect;
+
+      expect(result).toEqual({ completed: 1, abandoned: 1 });
+      expect(server.acks).toEqual([{ type: 'ack', nonce: fast.nonce, code: AckCode.SUCCESS }]);
+      expect(connection.pendingAcks).toEqual(new Set([slow.nonce]));
+      expect(code).toBe(1000);
+      expect(reason).toBe('client stop');
+      expect(abortReason).toBeInstanceOf(ClientClosedError);
+    });
+
+    it('should not reconnect while draining after stop', async () => {
+      let release = (): void => undefined;
+      const released = new Promise<void>((resolve) => (release = resolve));
+      const c = createClient({
+        reconnectBaseInterval: 100,
+        handler: {
+          async handle(event) {
+            received.push(event);
+            await released;
+          },
+        },
+      });
+      const connecting = vi.fn();
+      const { running: started } = await startClient(c);
+      const outcome = started.catch((error: unknown) => error);
+      const connection = await server.waitForConnection();
+      connection.pushEvent({ topic: 'test', operation: 'event', data: '{}' });
+      await vi.waitFor(() => expect(received).toHaveLength(1));
+
+      const reconnecting = once(c, 'reconnecting');
+      server.dropConnections();
+      await reconnecting;
+      c.on('connecting', connecting);
+
+      const stopping = c.stop({ drainTimeoutMs: 2000 });
+      // 超过重连间隔后才完成 drain
+      setTimeout(release, 300);
+      const result = await stopping;
+
+      expect(result).toEqual({ completed: 1, abandoned: 0 });
+      expect(await outcome).toBeInstanceOf(ClientClosedError);
+      expect(connecting).not.toHaveBeenCalled();
+      expect(server.totalConnections).toBe(1);
+      expect(c.isConnected()).toBe(false);
+    });
+  });
+
+  describe('queue', () => {
+    /**
+     * 创建处理器阻塞到 release() 调用为止的客户端
+     */
+    function createBlockingClient(options: Partial<ClientOptions> = {}): {
+      client: Client;
+      release: () => void;
+    } {
+      let release = (): void => undefined;
+      const released = new Promise<void>((resolve) => (release = resolve));
+      const c = createClient({
+        concurrency: 1,
+        queueSize: 1,
+        handler: {
+          async handle(event) {
+            received.push(event);
+            await released;
+          },
+        },
+        ...options,
+      });
+      return { client: c, release };
+    }
+
+    it('should drop events with failure ack when queue is full', async () => {
+      const { client: c, release } = createBlockingClient({ queueFullPolicy: 'drop' });
+      const dropped: unknown[] = [];
+      c.on('eventDropped', (info) => dropped.push(info));
+      await startClient(c);
+      const connection = await server.waitForConnection();
+
+      const first = connection.pushEvent({ topic: 'test', operation: 'event', data: '{}' });
+      const second = connection.pushEvent({ topic: 'test', operation: 'event', data: '{}' });
+      const third = connection.pushEvent({ topic: 'test', operation: 'event', data: '{}' });
+
+      const ack = await server.waitForAck(third.nonce);
+      expect(ack).toMatchObject({ code: AckCode.FAILED, msg: 'Event queue is full' });
+      expect(dropped).toEqual([
+        expect.objectContaining({ reason: 'queue_full', nonce: third.nonce }),
+      ]);
+      expect(c.getStats()).toMatchObject({ running: 1, queued: 1, dropped: 1 });
+
+      release();
+      expect((await server.waitForAck(first.nonce)).code).toBe(AckCode.SUCCESS);
+      expect((await server.waitForAck(second.nonce)).code).toBe(AckCode.SUCCESS);
+      expect(c.getStats()).toMatchObject({ running: 0, queued: 0, dropped: 1 });
+    });
+
+    it('should pause reading when queue is full and keep connection alive', async () => {
+      const { client: c, release } = createBlockingClient({
+        queueFullPolicy: 'pause',
+        pongTimeout: 100,
+      });
+      const disconnected = vi.fn();
+      c.on('disconnected', disconnected);
+      await startClient(c);
+      const connection = await server.waitForConnection();
+
+      const first = connection.pushEvent({ topic: 'test', operation: 'event', data: '{}' });
+      const second = connection.pushEvent({ topic: 'test', operation: 'event', data: '{}' });
+      await vi.waitFor(() => expect(c.getStats()).toMatchObject({ running: 1, queued: 1 }));
+
+      // 暂停期间不读取新事件，也不因收不到 Ping 而断开
+      const third = connection.pushEvent({ topic: 'test', operation: 'event', data: '{}' });
+      await new Promise((resolve) => setTimeout(resolve, 250));
+      expect(received).toHaveLength(1);
+      expect(c.getStats()).toMatchObject({ running: 1, queued: 1 });
+      expect(disconnected).not.toHaveBeenCalled();
+
+      release();
+      for (const message of [first, second, third]) {
+        expect((await server.waitForAck(message.nonce)).code).toBe(AckCode.SUCCESS);
+      }
+      expect(received).toHaveLength(3);
+      expect(disconnected).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handler timeout', () => {
+    it('should send timeout ack and abort context signal', async () => {
+      let signal: AbortSignal | undefined;
+      const c = createClient({
+        handlerTimeout: 50,
+        handler: {
+          async handle(_event, context) {
+            signal = context?.signal;
+            await new Promise<void>((resolve) =>
+              signal?.addEventListener('abort', () => resolve())
+            );
+          },
+        },
+      });
+      await startClient(c);
+      const connection = await server.waitForConnection();
+
+      const message = connection.pushEvent({ topic: 'test', operation: 'event', data: '{}' });
+      const ack = await server.waitForAck(message.nonce);
+
+      expect(ack).toMatchObject({ code: AckCode.FAILED, msg: 'handler timeout' });
+      expect(signal?.aborted).toBe(true);
+      expect(signal?.reason).toBeInstanceOf(HandlerTimeoutError);
+    });
+
+    it('should prefer dispatcher timeout over handlerTimeout', async () => {
+      const dispatcher = new Dispatcher()
+        .registerFunc(
+          'test.slow',
+          async () => {
+            await new Promise((resolve) => setTimeout(resolve, 100));
+          },
+          { timeout: 500 }
+        )
+        .registerFunc(
+          'test.fast',
+          async () => {
+            await new Promise((resolve) => setTimeout(resolve, 100));
+          },
+          { timeout: 20 }
+        );
+      const c = createClient({ handlerTimeout: 50, dispatcher, handler: undefined });
+      await startClient(c);
+      const connection = await server.waitForConnection();
+
+      const slow = connection.pushEvent({ topic: 'test', operation: 'slow', data: '{}' });
+      const fast = connection.pushEvent({ topic: 'test', operation: 'fast', data: '{}' });
+
+      expect((await server.waitForAck(slow.nonce)).code).toBe(AckCode.SUCCESS);
+      expect(await server.waitForAck(fast.nonce)).toMatchObject({
+        code: AckCode.FAILED,
+        msg: 'handler timeout',
+      });
+    });
+  });
+
+  describe('dedup', () => {
+    it('should re-ack duplicate events without calling handler', async () => {
+      const c = createClient({ dedupStore: new MemoryDedupStore() });
+      await startClient(c);
+      const connection = await server.waitForConnection();
+
+      const message = connection.pushEvent({ topic: 'test', operation: 'event', data: '{}' });
+      await server.waitForAck(message.nonce);
+      connection.sendEventMessage(message);
+      await vi.waitFor(() => expect(server.acks).toHaveLength(2));
+
+      expect(server.acks).toEqual([
+        { type: 'ack', nonce: message.nonce, code: AckCode.SUCCESS },
+        { type: 'ack', nonce: message.nonce, code: AckCode.SUCCESS },
+      ]);
+      expect(received).toHaveLength(1);
+      expect(c.getStats().duplicates).toBe(1);
+    });
+
+    it('should not call handler again for redelivery while processing', async () => {
+      let release = (): void => undefined;
+      const released = new Promise<void>((resolve) => (release = resolve));
+      const c = createClient({
+        dedupStore: new MemoryDedupStore(),
+        handler: {
+          async handle(event) {
+            received.push(event);
+            await released;
+          },
+        },
+      });
+      await startClient(c);
+      const connection = await server.waitForConnection();
+
+      const message = connection.pushEvent({ topic: 'test', operation: 'event', data: '{}' });
+      await vi.waitFor(() => expect(received).toHaveLength(1));
+      connection.sendEventMessage(message);
+      await vi.waitFor(() => expect(c.getStats().duplicates).toBe(1));
+
+      release();
+      expect((await server.waitForAck(message.nonce)).code).toBe(AckCode.SUCCESS);
+      expect(received).toHaveLength(1);
+      expect(server.acks).toHaveLength(1);
+    });
+  });
+
+  describe('replay window', () => {
+    it('should drop stale and future events', async () => {
+      const c = createClient({ maxEventAge: 60_000, clockSkewTolerance: 10_000 });
+      const dropped: unknown[] = [];
+      const errors: Error[] = [];
+      c.on('eventDropped', (info) => dropped.push(info));
+      c.on('error', (error) => errors.push(error));
+      await startClient(c);
+      const connection = await server.waitForConnection();
+
+      const now = Math.floor(Date.now() / 1000);
+      const stale = connection.pushEvent({
+        topic: 'test',
+        operation: 'event',
+        data: '{}',
+        time: now - 120,
+      });
+      const future = connection.pushEvent({
+        topic: 'test',
+        operation: 'event',
+        data: '{}',
+        time: now + 60,
+      });
+      const fresh = connection.pushEvent({ topic: 'test', operation: 'event', data: '{}' });
+      await server.waitForAck(fresh.nonce);
+
+      expect(received.map((event) => event.time)).toEqual([fresh.time]);
+      expect(dropped).toEqual([
+        expect.objectContaining({ reason: 'replay', nonce: stale.nonce }),
+        expect.objectContaining({ reason: 'replay', nonce: future.nonce }),
+      ]);
+      expect(errors).toHaveLength(2);
+      expect(errors[0]).toBeInstanceOf(ReplayError);
+      expect(errors[0]).toMatchObject({ reason: 'stale', eventTime: stale.time });
+      expect(errors[1]).toMatchObject({ reason: 'future', eventTime: future.time });
+      expect(await server.waitForAck(stale.nonce)).toMatchObject({
+        code: AckCode.REJECTED,
+        msg: errors[0]?.message,
+      });
+      expect(await server.waitForAck(future.nonce)).toMatchObject({
+        code: AckCode.REJECTED,
+        msg: errors[1]?.message,
+      });
+    });
+  });
+
+  describe('retry', () => {
+    it('should retry with backoff until maxAttempts and pass attempt in context', async () => {
+      const attempts: Array<{ attempt: number | undefined; at: number }> = [];
+      const c = createClient({
+        retry: { maxAttempts: 3, baseInterval: 40, multiplier: 2, jitter: 0 },
+        handler: {
+          handle(_event, context) {
+            attempts.push({ attempt: context?.attempt, at: Date.now() });
+            throw new Error('transient');
+          },
+        },
+      });
+      await startClient(c);
+      const connection = await server.waitForConnection();
+
+      const message = connection.pushEvent({ topic: 'test', operation: 'event', data: '{}' });
+      const ack = await server.waitForAck(message.nonce);
+
+      expect(ack).toMatchObject({ code: AckCode.FAILED, msg: 'transient' });
+      expect(attempts.map(({ attempt }) => attempt)).toEqual([1, 2, 3]);
+      const [first, second, third] = attempts.map(({ at }) => at);
+      expect(second! - first!).toBeGreaterThanOrEqual(35);
+      expect(third! - second!).toBeGreaterThanOrEqual(75);
+    });
+
+    it('should ack success once a retry succeeds', async () => {
+      let calls = 0;
+      const c = createClient({
+        retry: { maxAttempts: 3, baseInterval: 10, jitter: 0 },
+        handler: {
+          handle() {
+            if (++calls < 2) {
+              throw new Error('transient');
+            }
+          },
+        },
+      });
+      await startClient(c);
+      const connection = await server.waitForConnection();
+
+      const message = connection.pushEvent({ topic: 'test', operation: 'event', data: '{}' });
+
+      expect((await server.waitForAck(message.nonce)).code).toBe(AckCode.SUCCESS);
+      expect(calls).toBe(2);
+    });
+
+    it('should only retry errors accepted by retryable', async () => {
+      const retryable = vi.fn((error: Error) => error.message === 'transient');
+      let calls = 0;
+      const c = createClient({
+        retry: { maxAttempts: 5, baseInterval: 10, jitter: 0, retryable },
+        handler: {
+          handle() {
+            throw new Error(++calls < 2 ? 'transient' : 'fatal');
+          },
+        },
+      });
+      await startClient(c);
+      const connection = await server.waitForConnection();
+
+      const message = connection.pushEvent({ topic: 'test', operation: 'event', data: '{}' });
+
+      expect(await server.waitForAck(message.nonce)).toMatchObject({ msg: 'fatal' });
+      expect(calls).toBe(2);
+      expect(retryable.mock.calls.map(([error, attempt]) => [error.message, attempt])).toEqual([
+        ['transient', 1],
+        ['fatal', 2],
+      ]);
+    });
+
+    it('should not retry handler timeout or AckError by default', async () => {
+      let calls = 0;
+      const c = createClient({
+        handlerTimeout: 20,
+        retry: { maxAttempts: 3, baseInterval: 10, jitter: 0 },
+        handler: {
+          async handle(event) {
+            calls++;
+            if (event.eventCode === 'test.reject') {
+              throw AckError.reject('unsupported');
+            }
+            await new Promise((resolve) => setTimeout(resolve, 100));
+          },
+        },
+      });
+      await startClient(c);
+      const connection = await server.waitForConnection();
+
+      const rejected = connection.pushEvent({ topic: 'test', operation: 'reject', data: '{}' });
+      const slow = connection.pushEvent({ topic: 'test', operation: 'slow', data: '{}' });
+
+      expect((await server.waitForAck(rejected.nonce)).code).toBe(AckCode.REJECTED);
+      expect(await server.waitForAck(slow.nonce)).toMatchObject({ msg: 'handler timeout' });
+      expect(calls).toBe(2);
+    });
+
+    it('should stop retrying when client stops', async () => {
+      let calls = 0;
+      const c = createClient({
+        retry: { maxAttempts: 3, baseInterval: 10_000, jitter: 0 },
+        handler: {
+          handle() {
+            calls++;
+            throw new Error('transient');
+          },
+        },
+      });
+      await startClient(c);
+      const connection = await server.waitForConnection();
+
+      connection.pushEvent({ topic: 'test', operation: 'event', data: '{}' });
+      await vi.waitFor(() => expect(calls).toBe(1));
+
+      const errors: Error[] = [];
+      c.on('error', (error) => errors.push(error));
+      await c.stop({ drainTimeoutMs: 50 });
+
+      // 退避等待被取消，事件以最后一次的错误结束，不再调用处理器
+      await vi.waitFor(() =>
+        expect(errors).toEqual([expect.objectContaining({ message: 'transient' })])
+      );
+      expect(calls).toBe(1);
+    });
+  });
+
+  describe('manual ack', () => {
+    it('should ack via context.ackControl and release slot before ack', async () => {
+      const controls: AckControl[] = [];
+      const c = createClient({
+        manualAck: true,
+        concurrency: 1,
+        handler: {
+          handle(event, context) {
+            received.push(event);
+            controls.push(context!.ackControl!);
+          },
+        },
+      });
+      await startClient(c);
+      const connection = await server.waitForConnection();
+
+      const first = connection.pushEvent({ topic: 'test', operation: 'event', data: '{}' });
+      const second = connection.pushEvent({ topic: 'test', operation: 'event', data: '{}' });
+
+      // 第一个事件未确认时第二个事件也能处理
+      await vi.waitFor(() => expect(received).toHaveLength(2));
+      expect(c.getStats()).toMatchObject({ running: 0, pendingAcks: 2 });
+      expect(server.acks).toEqual([]);
+
+      controls[1]!.ack();
+      controls[0]!.nack(AckCode.RETRY_LATER, 'busy');
+      controls[0]!.ack();
+
+      expect((await server.waitForAck(second.nonce)).code).toBe(AckCode.SUCCESS);
+      expect(await server.waitForAck(first.nonce)).toMatchObject({
+        code: AckCode.RETRY_LATER,
+        msg: 'busy',
+      });
+      expect(server.acks).toHaveLength(2);
+      expect(c.getStats().pendingAcks).toBe(0);
+    });
+
+    it('should nack with error code when handler throws before ack', async () => {
+      const c = createClient({
+        manualAck: true,
+        handler: {
+          handle() {
+            throw AckError.reject('unsupported');
+          },
+        },
+      });
+      await startClient(c);
+      const connection = await server.waitForConnection();
+
+      const message = connection.pushEvent({ topic: 'test', operation: 'event', data: '{}' });
+
+      expect(await server.waitForAck(message.nonce)).toMatchObject({
+        code: AckCode.REJECTED,
+        msg: 'unsupported',
+      });
+      expect(c.getStats().pendingAcks).toBe(0);
+    });
+
+    it('should send failure ack after ack deadline', async () => {
+      const c = createClient({ manualAck: true, ackDeadline: 50 });
+      await startClient(c);
+      const connection = await server.waitForConnection();
+
+      const message = connection.pushEvent({ topic: 'test', operation: 'event', data: '{}' });
+      await vi.waitFor(() => expect(c.getStats().pendingAcks).toBe(1));
+
+      expect(await server.waitForAck(message.nonce)).toMatchObject({
+        code: AckCode.FAILED,
+        msg: 'ack deadline exceeded',
+      });
+      expect(c.getStats().pendingAcks).toBe(0);
+    });
+
+    it('should warn when manual ack is enabled without ACK mode', async () => {
+      const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+      const c = createClient({ manualAck: true, ackMode: false, logger });
+      expect(logger.warn).toHaveBeenCalledWith(
+        'manualAck requires ackMode, events will be handled without ACK'
+      );
+
+      await startClient(c);
+      const connection = await server.waitForConnection();
+      connection.pushEvent({ topic: 'test', operation: 'event', data: '{}' });
+      await vi.waitFor(() => expect(received).toHaveLength(1));
+      expect(c.getStats().pendingAcks).toBe(0);
+      expect(server.acks).toEqual([]);
+    });
+  });
+
+  describe('dead letter', () => {
+    it('should remove dead letter when redelivered event succeeds', async () => {
+      const letters = new Map<string, DeadLetter>();
+      const deadLetterSink: DeadLetterSink = {
+        put: (letter) => void letters.set(letter.id, letter),
+        list: () => [...letters.values()],
+        remove: (ids) => ids.forEach((id) => letters.delete(id)),
+      };
+      let calls = 0;
+      const c = createClient({
+        deadLetterSink,
+        handler: {
+          handle() {
+            if (++calls === 1) {
+              throw new Error('transient');
+            }
+          },
+        },
+      });
+      c.on('error', () => undefined);
+      await startClient(c);
+      const connection = await server.waitForConnection();
+
+      const message = connection.pushEvent({ topic: 'test', operation: 'event', data: '{}' });
+      expect((await server.waitForAck(message.nonce)).code).toBe(AckCode.FAILED);
+      expect([...letters.keys()]).toEqual([message.nonce]);
+
+      // 服务端重新投递
+      connection.sendEventMessage(message);
+      await vi.waitFor(() => expect(server.acks).toHaveLength(2));
+
+      expect(server.acks[1]?.code).toBe(AckCode.SUCCESS);
+      expect(letters.size).toBe(0);
+      expect(await c.redrive()).toEqual({ total: 0, succeeded: 0, failed: 0, skipped: 0 });
+      expect(calls).toBe(2);
+    });
+  });
+
+  describe('ack error', () => {
+    it('should send ack with code of thrown AckError', async () => {
+      const c = createClient({
+        handler: {
+          handle() {
+            throw AckError.retryLater('database unavailable');
+          },
+        },
+      });
+      await startClient(c);
+      const connection = await server.waitForConnection();
+
+      const message = connection.pushEvent({ topic: 'test', operation: 'event', data: '{}' });
+
+      expect(await server.waitForAck(message.nonce)).toEqual({
+        type: 'ack',
+        nonce: message.nonce,
+        code: AckCode.RETRY_LATER,
+        msg: 'database unavailable',
+      });
+    });
+
+    it('should treat returned AckError as thrown', async () => {
+      const dispatcher = new Dispatcher().registerFunc('test.event', () =>
+        AckError.reject('unsupported')
+      );
+      await startClient(createClient({ handler: undefined, dispatcher }));
+      const connection = await server.waitForConnection();
+
+      const message = connection.pushEvent({ topic: 'test', operation: 'event', data: '{}' });
+
+      expect(await server.waitForAck(message.nonce)).toMatchObject({
+        code: AckCode.REJECTED,
+        msg: 'unsupported',
+      });
+    });
+
+    it('should treat AckError returned by handler as thrown', async () => {
+      const c = createClient({
+        handler: {
+          handle: () => Promise.resolve(AckError.retryLater('busy')),
+        },
+      });
+      await startClient(c);
+      const connection = await server.waitForConnection();
+
+      const message = connection.pushEvent({ topic: 'test', operation: 'event', data: '{}' });
+
+      expect(await server.waitForAck(message.nonce)).toMatchObject({
+        code: AckCode.RETRY_LATER,
+        msg: 'busy',
+      });
+    });
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * OpenAPI 客户端单元测试（基于本地 HTTP 服务）
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer } from 'node:http';
+import type { IncomingMessage, Server, ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { ApiClient } from '../../src/api';
+import { verifyKso1 } from '../../src/crypto';
+import { ApiClientError, ApiServerError, ClientError, ServerError } from '../../src/errors';
+
+const APP_ID = 'test_app_id';
+const APP_SECRET = 'test_app_secret';
+
+/**
+ * 收到的请求
+ */
+interface ReceivedRequest {
+  method: string;
+  url: string;
+  headers: IncomingMessage['headers'];
+  body: string;
+}
+
+describe('ApiClient', () => {
+  let server: Server;
+  let baseUrl: string;
+  let requests: ReceivedRequest[];
+  let respond: (res: ServerResponse) => void;
+
+  beforeEach(async () => {
+    requests = [];
+    respond = (res) => {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ code: 0, data: { message_id: 'message_1' } }));
+    };
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+      req.on('end', () => {
+        requests.push({ method: req.method ?? '', url: req.url ?? '', headers: req.headers, body });
+        respond(res);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  /**
+   * 创建指向本地服务的客户端
+   */
+  function createClient(): ApiClient {
+    return new ApiClient({ appId: APP_ID, appSecret: APP_SECRET, baseUrl });
+  }
+
+  it('should send KSO-1 signed message request', async () => {
+    const result = await createClient().sendText('chat_1', 'hello', { quoteMsgId: 'message_0' });
+
+    expect(result).toEqual({ message_id: 'message_1' });
+    expect(requests).toHaveLength(1);
+
+    const [request] = requests;
+    expect(request?.method).toBe('POST');
+    expect(request?.url).toBe('/v7/messages/create');
+    expect(request?.headers['content-type']).toBe('application/json');
+    expect(JSON.parse(request?.body ?? '')).toEqual({
+      receiver: { type: 'chat', receiver_id: 'chat_1' },
+      type: 'text',
+      content: { text: { content: 'hello', type: 'plain' } },
+      quote_msg_id: 'message_0',
+    });
+
+    const appId = verifyKso1(
+      request?.headers ?? {},
+      {
+        method: 'POST',
+        uri: '/v7/messages/create',
+        contentType: 'application/json',
+        body: request?.body ?? '',
+      },
+      { appSecret: APP_SECRET }
+    );
+    expect(appId).toBe(APP_ID);
+  });
+
+  it('should send access token when configured', async () => {
+    const client = new ApiClient({
+      appId: APP_ID,
+      appSecret: APP_SECRET,
+      baseUrl,
+      accessToken: () => Promise.resolve('token_1'),
+    });
+
+    await client.request('GET', '/v7/chats?page_size=10');
+
+    expect(requests[0]?.url).toBe('/v7/chats?page_size=10');
+    expect(requests[0]?.headers.authorization).toBe('Bearer token_1');
+    expect(requests[0]?.headers['content-type']).toBeUndefined();
+  });
+
+  it('should throw ApiClientError for 4xx', async () => {
+    respond = (res) => {
+      res.statusCode = 403;
+      res.end(JSON.stringify({ code: 40003, msg: 'permission denied' }));
+    };
+
+    const error = await createClient()
+      .sendText('chat_1', 'hello')
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ApiClientError);
+    expect(error).toBeInstanceOf(ClientError);
+    expect(error).toMatchObject({ statusCode: 403, code: 40003, message: 'permission denied' });
+  });
+
+  it('should throw ApiClientError for non-zero business code', async () => {
+    respond = (res) => res.end(JSON.stringify({ code: 10001, msg: 'invalid chat' }));
+
+    await expect(createClient().sendText('chat_1', 'hello')).rejects.toMatchObject({
+      name: 'ApiClientError',
+      statusCode: 200,
+      code: 10001,
+    });
+  });
+
+  it('should throw ApiServerError for 5xx and 429', async () => {
+    respond = (res) => {
+      res.statusCode = 503;
+      res.end('Service Unavailable');
+    };
+    const error = await createClient()
+      .sendText('chat_1', 'hello')
+      .catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ApiServerError);
+    expect(error).toBeInstanceOf(ServerError);
+    expect(error).toMatchObject({ statusCode: 503, code: -1 });
+
+    respond = (res) => {
+      res.statusCode = 429;
+      res.end();
+    };
+    await expect(createClient().sendText('chat_1', 'hello')).rejects.toBeInstanceOf(ApiServerError);
+  });
+
+  it('should throw ApiServerError on network error', async () => {
+    const client = new ApiClient({
+      appId: APP_ID,
+      appSecret: APP_SECRET,
+      baseUrl: 'http://127.0.0.1:1',
+    });
+
+    await expect(client.sendText('chat_1', 'hello')).rejects.toMatchObject({
+      name: 'ApiServerError',
+      statusCode: 0,
+    });
+  });
+});
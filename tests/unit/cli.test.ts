@@ -0,0 +1,261 @@
+/**
+ * 命令行工具单元测试
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { PassThrough } from 'node:stream';
+import { globToRegExp, createEventCodeFilter } from '../../src/event/pattern';
+import { formatEvent } from '../../src/cli/format';
+import { parseListenArgs } from '../../src/cli/listen';
+import { parseEventMessage, diagnoseSignature } from '../../src/cli/decrypt';
+import { run } from '../../src/cli/run';
+import { CliUsageError } from '../../src/cli/io';
+import type { CliIO } from '../../src/cli/io';
+import { createEvent } from '../../src/event';
+import { hmacSha256, encryptForTest } from '../../src/crypto';
+import type { EventMessage } from '../../src/protocol';
+
+const APP_ID = 'test_app_id';
+const APP_SECRET = 'test_app_secret';
+
+/**
+ * 创建测试用加密事件消息
+ */
+function createMessage(data = '{"key":"value"}'): EventMessage {
+  const topic = 'kso.app_chat.message';
+  const nonce = 'nonce_1234567890abcdef';
+  const time = 1704067200;
+  const encryptedData = encryptForTest(data, APP_SECRET, nonce);
+  return {
+    topic,
+    operation: 'create',
+    time,
+    nonce,
+    signature: hmacSha256(`${APP_ID}:${topic}:${nonce}:${time}:${encryptedData}`, APP_SECRET),
+    encrypted_data: encryptedData,
+  };
+}
+
+/**
+ * 创建测试用输入输出，收集输出内容
+ */
+function createIO(
+  env: NodeJS.ProcessEnv = {},
+  input = ''
+): CliIO & { out: () => string; err: () => string } {
+  const stdin = new PassThrough();
+  stdin.end(input);
+  const stdout = new PassThrough();
+  const stderr = new PassThrough();
+  let out = '';
+  let err = '';
+  stdout.on('data', (chunk: Buffer) => (out += chunk.toString()));
+  stderr.on('data', (chunk: Buffer) => (err += chunk.toString()));
+  return { stdin, stdout, stderr, env, out: () => out, err: () => err };
+}
+
+describe('cli', () => {
+  describe('globToRegExp', () => {
+    it('should match single segment with *', () => {
+      const regexp = globToRegExp('kso.app_chat.*.create');
+      expect(regexp.test('kso.app_chat.message.create')).toBe(true);
+      expect(regexp.test('kso.app_chat.create')).toBe(false);
+      expect(regexp.test('kso.app_chat.a.b.create')).toBe(false);
+    });
+
+    it('should match any segments with **', () => {
+      const regexp = globToRegExp('kso.**');
+      expect(regexp.test('kso.app_chat.message.create')).toBe(true);
+      expect(regexp.test('other.app_chat.message.create')).toBe(false);
+    });
+
+    it('should escape regexp characters', () => {
+      expect(globToRegExp('kso.app_chat').test('ksoXapp_chat')).toBe(false);
+    });
+  });
+
+  describe('createEventCodeFilter', () => {
+    it('should match all event codes without patterns', () => {
+      expect(createEventCodeFilter([])('any.event')).toBe(true);
+    });
+
+    it('should match any of the patterns', () => {
+      const matches = createEventCodeFilter(['a.*', 'b.**']);
+      expect(matches('a.x')).toBe(true);
+      expect(matches('b.x.y')).toBe(true);
+      expect(matches('c.x')).toBe(false);
+    });
+  });
+
+  describe('formatEvent', () => {
+    const event = createEvent('kso.app_chat.message', 'create', 1704067200, '{"key":"value"}');
+
+    it('should format as ndjson', () => {
+      const output = formatEvent(event, 'ndjson');
+      expect(output.endsWith('\n')).toBe(true);
+      expect(JSON.parse(output)).toEqual({
+        eventCode: 'kso.app_chat.message.create',
+        topic: 'kso.app_chat.message',
+        operation: 'create',
+        time: 1704067200,
+        data: { key: 'value' },
+      });
+    });
+
+    it('should format as pretty', () => {
+      expect(formatEvent(event, 'pretty')).toBe(
+        '--- 2024-01-01T00:00:00.000Z kso.app_chat.message.create\n{\n  "key": "value"\n}\n'
+      );
+    });
+
+    it('should keep non-json data as is', () => {
+      const raw = createEvent('test', 'event', 1704067200, 'not json');
+      expect(JSON.parse(formatEvent(raw, 'ndjson'))).toMatchObject({ data: 'not json' });
+    });
+  });
+
+  describe('parseListenArgs', () => {
+    it('should parse options', () => {
+      const options = parseListenArgs(
+        [
+          '--app-id',
+          'id',
+          '--app-secret',
+          'secret',
+          '--filter',
+          'a.*',
+          '--filter',
+          'b.*',
+          '--format',
+          'ndjson',
+          '--ack-fail',
+        ],
+        {}
+      );
+
+      expect(options).toEqual({
+        appId: 'id',
+        appSecret: 'secret',
+        endpoint: undefined,
+        filters: ['a.*', 'b.*'],
+        format: 'ndjson',
+        ack: true,
+        ackFail: true,
+        logLevel: 'warn',
+      });
+    });
+
+    it('should read credentials from env', () => {
+      const options = parseListenArgs(['--no-ack'], { APP_ID: 'id', APP_SECRET: 'secret' });
+      expect(options.appId).toBe('id');
+      expect(options.appSecret).toBe('secret');
+      expect(options.ack).toBe(false);
+    });
+
+    it('should reject invalid options', () => {
+      expect(() => parseListenArgs([], {})).toThrow(CliUsageError);
+      expect(() => parseListenArgs(['--format', 'xml'], { APP_ID: 'a', APP_SECRET: 'b' })).toThrow(
+        CliUsageError
+      );
+      expect(() =>
+        parseListenArgs(['--no-ack', '--ack-fail'], { APP_ID: 'a', APP_SECRET: 'b' })
+      ).toThrow(CliUsageError);
+    });
+  });
+
+  describe('run', () => {
+    it('should print usage for unknown command', async () => {
+      const io = createIO();
+      expect(await run(['unknown'], io)).toBe(2);
+      expect(io.err()).toContain('Unknown command: unknown');
+    });
+
+    it('should print command help', async () => {
+      const io = createIO();
+      expect(await run(['listen', '--help'], io)).toBe(0);
+      expect(io.out()).toContain('Usage: open-event listen');
+    });
+
+    it('should exit 0 when aborted while reconnecting', async () => {
+      const io = createIO();
+      const controller = new AbortController();
+      const args = [
+        'listen',
+        ...['--app-id', APP_ID, '--app-secret', APP_SECRET],
+        ...['--endpoint', 'ws://127.0.0.1:1/v7/event/ws', '--log-level', 'info'],
+      ];
+
+      // 连接被拒绝后进入重连等待（默认间隔 1 秒）时中止
+      const exiting = run(args, io, controller.signal);
+      await vi.waitFor(() => expect(io.err()).toContain('Reconnecting in'));
+      controller.abort();
+
+      expect(await exiting).toBe(0);
+      expect(io.err()).not.toContain('Client is closed');
+    });
+
+    it('should report usage errors', async () => {
+      const io = createIO();
+      expect(await run(['listen', '--unknown'], io)).toBe(2);
+      expect(io.err()).toContain("Unknown option '--unknown'");
+    });
+  });
+
+  describe('parseEventMessage', () => {
+    it('should parse event message and recorded line', () => {
+      const msg = createMessage();
+      expect(parseEventMessage(JSON.stringify(msg))).toEqual(msg);
+      expect(parseEventMessage(JSON.stringify({ receivedAt: 1000, message: msg }))).toEqual(msg);
+    });
+
+    it('should reject invalid input', () => {
+      expect(() => parseEventMessage('not json')).toThrow(CliUsageError);
+      expect(() => parseEventMessage('{"topic":"test"}')).toThrow(
+        'missing nonce, time, signature, encrypted_data'
+      );
+    });
+  });
+
+  describe('diagnoseSignature', () => {
+    it('should show signature content fields and signatures', () => {
+      const msg = { ...createMessage(), signature: 'wrong_signature' };
+      const expected = createMessage().signature;
+
+      const output = diagnoseSignature(msg, APP_ID, APP_SECRET);
+
+      expect(output).toContain(`access_key     = ${APP_ID}`);
+      expect(output).toContain(`nonce          = ${msg.nonce}`);
+      expect(output).toContain(`time           = ${msg.time}`);
+      expect(output).toContain(`expected = ${expected}`);
+      expect(output).toContain('actual   = wrong_signature');
+    });
+
+    it('should hint standard base64 signature', () => {
+      const msg = createMessage();
+      const signature = Buffer.from(msg.signature, 'base64url').toString('base64');
+
+      const output = diagnoseSignature({ ...msg, signature }, APP_ID, APP_SECRET);
+
+      expect(output).toContain('standard base64');
+    });
+  });
+
+  describe('decrypt command', () => {
+    it('should print decrypted payload from stdin', async () => {
+      const io = createIO({}, JSON.stringify(createMessage()));
+
+      const code = await run(['decrypt', '--app-id', APP_ID, '--app-secret', APP_SECRET, '-'], io);
+
+      expect(code).toBe(0);
+      expect(io.out()).toBe('{\n  "key": "value"\n}\n');
+    });
+
+    it('should print diagnosis when verification fails', async () => {
+      const io = createIO({ APP_ID, APP_SECRET: 'wrong_secret' }, JSON.stringify(createMessage()));
+
+      expect(await run(['decrypt'], io)).toBe(1);
+      expect(io.out()).toBe('');
+      expect(io.err()).toContain('Verify signature failed');
+    });
+  });
+});
@@ -8,10 +8,16 @@ import {
   hmacSha256,
   hmacSha256Hex,
   signForWebSocket,
+  signKso1,
+  verifyKso1,
+  sha256Hex,
   verifySignature,
+  buildSignatureContent,
   decrypt,
   encryptForTest,
+  checkEventTime,
 } from '../../src/crypto';
+import { ReplayError, SignatureError } from '../../src/errors';
 
 describe('crypto', () => {
   describe('md5', () => {
@@ -96,6 +102,119 @@ describe('crypto', () => {
     });
   });
 
+  describe('signKso1', () => {
+    const date = 'Mon, 01 Jan 2024 00:00:00 GMT';
+
+    it('should sign method, uri, content type, date and body hash', () => {
+      const body = '{"text":"hello"}';
+      const headers = signKso1({
+        appId: 'test_app_id',
+        appSecret: 'test_app_secret',
+        method: 'POST',
+        uri: '/v7/messages/create',
+        contentType: 'application/json',
+        body,
+        date,
+      });
+
+      const stringToSign = `KSO-1POST/v7/messages/createapplication/json${date}${sha256Hex(body)}`;
+      expect(headers).toEqual({
+        'X-Kso-Date': date,
+        'X-Kso-Authorization': `KSO-1 test_app_id:${hmacSha256Hex(stringToSign, 'test_app_secret')}`,
+      });
+    });
+
+    it('should match signForWebSocket for GET without body', () => {
+      const params = { appId: 'test_app_id', appSecret: 'test_app_secret', uri: '/v7/event/ws' };
+      const headers = signForWebSocket(params);
+
+      expect(signKso1({ ...params, method: 'GET', date: headers['X-Kso-Date'] })).toEqual(headers);
+    });
+  });
+
+  describe('verifyKso1', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+    const request = {
+      method: 'POST',
+      uri: '/callback?x=1',
+      contentType: 'application/json',
+      body: '{"key":"value"}',
+    };
+    const headers = signKso1({
+      appId: 'test_app_id',
+      appSecret: 'test_app_secret',
+      ...request,
+      date: new Date(now),
+    });
+
+    it('should return app id for valid request', () => {
+      expect(verifyKso1(headers, request, { appSecret: 'test_app_secret', now })).toBe(
+        'test_app_id'
+      );
+    });
+
+    it('should accept lower-case headers and secret lookup', () => {
+      const lowerCase = {
+        'x-kso-date': headers['X-Kso-Date'],
+        'x-kso-authorization': headers['X-Kso-Authorization'],
+      };
+      const lookup = (appId: string) => (appId === 'test_app_id' ? 'test_app_secret' : undefined);
+
+      expect(verifyKso1(lowerCase, request, { appSecret: lookup, now })).toBe('test_app_id');
+      expect(() => verifyKso1(lowerCase, request, { appSecret: () => undefined, now })).toThrow(
+        'Unknown app id'
+      );
+    });
+
+    it('should reject tampered request', () => {
+      const options = { appSecret: 'test_app_secret', now };
+
+      expect(() => verifyKso1(headers, { ...request, body: '{}' }, options)).toThrow(
+        SignatureError
+      );
+      expect(() => verifyKso1(headers, { ...request, method: 'GET' }, options)).toThrow(
+        SignatureError
+      );
+      expect(() => verifyKso1(headers, request, { ...options, appSecret: 'wrong' })).toThrow(
+        'Invalid signature'
+      );
+    });
+
+    it('should reject missing or malformed headers', () => {
+      const options = { appSecret: 'test_app_secret', now };
+
+      expect(() => verifyKso1({}, request, options)).toThrow('Missing X-Kso-Authorization');
+      expect(() =>
+        verifyKso1({ ...headers, 'X-Kso-Authorization': 'Bearer token' }, request, options)
+      ).toThrow('Invalid X-Kso-Authorization');
+    });
+
+    it('should reject date outside clock skew', () => {
+      const options = { appSecret: 'test_app_secret', clockSkew: 60000 };
+
+      expect(() => verifyKso1(headers, request, { ...options, now: now + 60000 })).not.toThrow();
+      expect(() => verifyKso1(headers, request, { ...options, now: now + 61000 })).toThrow(
+        'X-Kso-Date out of range'
+      );
+    });
+  });
+
+  describe('buildSignatureContent', () => {
+    it('should join fields with colon', () => {
+      const content = buildSignatureContent({
+        accessKey: 'test_app_id',
+        topic: 'kso.app_chat.message',
+        nonce: 'test_nonce_12345',
+        time: 1704067200,
+        encryptedData: 'encrypted_data_base64',
+      });
+
+      expect(content).toBe(
+        'test_app_id:kso.app_chat.message:test_nonce_12345:1704067200:encrypted_data_base64'
+      );
+    });
+  });
+
   describe('verifySignature', () => {
     it('should verify valid signature', () => {
       const params = {
@@ -223,4 +342,47 @@ describe('crypto', () => {
       expect(decrypted).toBe(plainText);
     });
   });
+
+  describe('checkEventTime', () => {
+    const now = 1704067200 * 1000;
+
+    it('should accept events within the window', () => {
+      expect(() => checkEventTime({ time: 1704067200, maxEventAge: 60000, now })).not.toThrow();
+      expect(() =>
+        checkEventTime({ time: 1704067200 - 60, maxEventAge: 60000, now })
+      ).not.toThrow();
+    });
+
+    it('should reject stale events', () => {
+      expect(() => checkEventTime({ time: 1704067200 - 61, maxEventAge: 60000, now })).toThrow(
+        ReplayError
+      );
+
+      try {
+        checkEventTime({ time: 1704067200 - 3600, maxEventAge: 60000, now });
+      } catch (error) {
+        expect((error as ReplayError).reason).toBe('stale');
+        expect((error as ReplayError).eventTime).toBe(1704067200 - 3600);
+      }
+    });
+
+    it('should reject future-dated events', () => {
+      try {
+        checkEventTime({ time: 1704067200 + 10, maxEventAge: 60000, now });
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(ReplayError);
+        expect((error as ReplayError).reason).toBe('future');
+      }
+    });
+
+    it('should tolerate clock skew', () => {
+      const params = { maxEventAge: 60000, clockSkew: 30000, now };
+
+      expect(() => checkEventTime({ ...params, time: 1704067200 + 30 })).not.toThrow();
+      expect(() => checkEventTime({ ...params, time: 1704067200 - 90 })).not.toThrow();
+      expect(() => checkEventTime({ ...params, time: 1704067200 + 31 })).toThrow(ReplayError);
+      expect(() => checkEventTime({ ...params, time: 1704067200 - 91 })).toThrow(ReplayError);
+    });
+  });
 });
@@ -0,0 +1,171 @@
+/**
+ * 死信模块单元测试
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { FileDeadLetterSink, matchDeadLetter } from '../../src/deadletter';
+import type { DeadLetter } from '../../src/deadletter';
+import { Client } from '../../src/client';
+import { Dispatcher, createEvent } from '../../src/event';
+import { NopLogger } from '../../src/logger';
+import { DeadLetterSinkNotSetError } from '../../src/errors';
+import { MemoryDedupStore } from '../../src/dedup';
+
+/**
+ * 创建测试用死信
+ */
+function createLetter(
+  id: string,
+  topic = 'test',
+  operation = 'event',
+  failedAt = 1704067200000
+): DeadLetter {
+  return {
+    id,
+    nonce: id,
+    event: createEvent(topic, operation, 1704067200, '{}'),
+    error: { name: 'Error', message: 'Handler error' },
+    attempts: 1,
+    failedAt,
+  };
+}
+
+describe('deadletter', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'open-event-dlq-'));
+    file = path.join(dir, 'dead-letters.jsonl');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe('matchDeadLetter', () => {
+    const letter = createLetter('nonce_1', 'kso.app_chat.message', 'create', 2000);
+
+    it('should match all letters with empty filter', () => {
+      expect(matchDeadLetter(letter)).toBe(true);
+      expect(matchDeadLetter(letter, {})).toBe(true);
+    });
+
+    it('should match by conditions', () => {
+      expect(matchDeadLetter(letter, { eventCode: 'kso.app_chat.message.create' })).toBe(true);
+      expect(matchDeadLetter(letter, { eventCode: 'kso.app_chat.create' })).toBe(false);
+      expect(matchDeadLetter(letter, { nonce: 'nonce_2' })).toBe(false);
+      expect(matchDeadLetter(letter, { failedAfter: 1000, failedBefore: 3000 })).toBe(true);
+      expect(matchDeadLetter(letter, { failedAfter: 3000 })).toBe(false);
+      expect(matchDeadLetter(letter, { failedBefore: 2000 })).toBe(false);
+    });
+
+    it('should match by predicate', () => {
+      expect(matchDeadLetter(letter, (l) => l.attempts === 1)).toBe(true);
+      expect(matchDeadLetter(letter, (l) => l.attempts > 1)).toBe(false);
+    });
+  });
+
+  describe('FileDeadLetterSink', () => {
+    it('should return empty list when file does not exist', async () => {
+      const sink = new FileDeadLetterSink({ path: file });
+      expect(await sink.list()).toEqual([]);
+    });
+
+    it('should put, overwrite and remove letters', async () => {
+      const sink = new FileDeadLetterSink({ path: file });
+
+      await sink.put(createLetter('nonce_1'));
+      await sink.put(createLetter('nonce_2'));
+      await sink.put({ ...createLetter('nonce_1'), attempts: 2 });
+
+      let letters = await sink.list();
+      expect(letters.map((l) => l.id)).toEqual(['nonce_2', 'nonce_1']);
+      expect(letters.find((l) => l.id === 'nonce_1')?.attempts).toBe(2);
+
+      await sink.remove(['nonce_2']);
+      letters = await new FileDeadLetterSink({ path: file }).list();
+      expect(letters.map((l) => l.id)).toEqual(['nonce_1']);
+    });
+  });
+
+  describe('Client.redrive', () => {
+    it('should throw when dead letter sink is not set', async () => {
+      const client = new Client({
+        appId: 'test_app_id',
+        appSecret: 'test_app_secret',
+        logger: new NopLogger(),
+        dispatcher: new Dispatcher(),
+      });
+
+      await expect(client.redrive()).rejects.toThrow(DeadLetterSinkNotSetError);
+    });
+
+    it('should redrive matching letters through the dispatcher', async () => {
+      const sink = new FileDeadLetterSink({ path: file });
+      await sink.put(createLetter('nonce_1', 'event', 'ok'));
+      await sink.put(createLetter('nonce_2', 'event', 'fail'));
+      await sink.put(createLetter('nonce_3', 'other', 'ok'));
+
+      const handled: string[] = [];
+      const dispatcher = new Dispatcher()
+        .registerFunc('event.ok', (event) => {
+          handled.push(event.eventCode);
+        })
+        .registerFunc('event.fail', () => {
+          throw new Error('Still failing');
+        });
+
+      const client = new Client({
+        appId: 'test_app_id',
+        appSecret: 'test_app_secret',
+        logger: new NopLogger(),
+        dispatcher,
+        deadLetterSink: sink,
+      });
+
+      const result = await client.redrive((letter) => letter.event.topic === 'event');
+
+      expect(result).toEqual({ total: 2, succeeded: 1, failed: 1, skipped: 0 });
+      expect(handled).toEqual(['event.ok']);
+
+      const letters = await sink.list();
+      expect(letters.map((l) => l.id).sort()).toEqual(['nonce_2', 'nonce_3']);
+      const failed = letters.find((l) => l.id === 'nonce_2');
+      expect(failed?.attempts).toBe(2);
+      expect(failed?.error.message).toBe('Still failing');
+    });
+
+    it('should skip letters already processed according to dedup store', async () => {
+      const sink = new FileDeadLetterSink({ path: file });
+      await sink.put(createLetter('nonce_1'));
+      await sink.put(createLetter('nonce_2'));
+      const dedupStore = new MemoryDedupStore();
+      dedupStore.add('nonce_1');
+
+      const handled: string[] = [];
+      const client = new Client({
+        appId: 'test_app_id',
+        appSecret: 'test_app_secret',
+        logger: new NopLogger(),
+        handler: {
+          handle(event) {
+            handled.push(event.eventCode);
+          },
+        },
+        deadLetterSink: sink,
+        dedupStore,
+      });
+
+      const result = await client.redrive();
+
+      expect(result).toEqual({ total: 2, succeeded: 1, failed: 0, skipped: 1 });
+      expect(handled).toEqual(['test.event']);
+      expect(await sink.list()).toEqual([]);
+      expect(dedupStore.has('nonce_2')).toBe(true);
+    });
+  });
+});
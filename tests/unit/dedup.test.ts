@@ -0,0 +1,104 @@
+/**
+ * 去重存储单元测试
+ */
+
+import { describe, it, expect, vi, afterEach, beforeEach } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { MemoryDedupStore, FileDedupStore } from '../../src/dedup';
+
+describe('dedup', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('MemoryDedupStore', () => {
+    it('should remember added nonces', () => {
+      const store = new MemoryDedupStore();
+
+      expect(store.has('nonce_1')).toBe(false);
+      store.add('nonce_1');
+      expect(store.has('nonce_1')).toBe(true);
+      expect(store.has('nonce_2')).toBe(false);
+    });
+
+    it('should evict least recently used nonces', () => {
+      const store = new MemoryDedupStore({ maxSize: 2 });
+
+      store.add('nonce_1');
+      store.add('nonce_2');
+      // 访问 nonce_1，使 nonce_2 成为最久未访问的记录
+      expect(store.has('nonce_1')).toBe(true);
+      store.add('nonce_3');
+
+      expect(store.size).toBe(2);
+      expect(store.has('nonce_1')).toBe(true);
+      expect(store.has('nonce_2')).toBe(false);
+      expect(store.has('nonce_3')).toBe(true);
+    });
+
+    it('should expire nonces after ttl', () => {
+      vi.useFakeTimers();
+      const store = new MemoryDedupStore({ ttl: 1000 });
+
+      store.add('nonce_1');
+      vi.advanceTimersByTime(500);
+      expect(store.has('nonce_1')).toBe(true);
+
+      vi.advanceTimersByTime(600);
+      expect(store.has('nonce_1')).toBe(false);
+      expect(store.size).toBe(0);
+    });
+  });
+
+  describe('FileDedupStore', () => {
+    let dir: string;
+    let file: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(path.join(tmpdir(), 'open-event-dedup-'));
+      file = path.join(dir, 'dedup.jsonl');
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should persist nonces across instances', async () => {
+      const store = new FileDedupStore({ path: file });
+      expect(await store.has('nonce_1')).toBe(false);
+      await store.add('nonce_1');
+
+      const reopened = new FileDedupStore({ path: file });
+      expect(await reopened.has('nonce_1')).toBe(true);
+      expect(await reopened.has('nonce_2')).toBe(false);
+    });
+
+    it('should ignore corrupted lines', async () => {
+      await writeFile(
+        file,
+        `${JSON.stringify({ nonce: 'nonce_1', time: Date.now() })}\n{"nonce":"broken`,
+        'utf-8'
+      );
+
+      const store = new FileDedupStore({ path: file });
+      expect(await store.has('nonce_1')).toBe(true);
+    });
+
+    it('should compact the file when it grows too large', async () => {
+      const store = new FileDedupStore({ path: file, maxSize: 2 });
+
+      for (let i = 1; i <= 5; i++) {
+        await store.add(`nonce_${i}`);
+      }
+
+      const lines = (await readFile(file, 'utf-8')).trim().split('\n');
+      expect(lines.length).toBeLessThanOrEqual(4);
+
+      const reopened = new FileDedupStore({ path: file, maxSize: 2 });
+      expect(await reopened.has('nonce_5')).toBe(true);
+      expect(await reopened.has('nonce_1')).toBe(false);
+    });
+  });
+});
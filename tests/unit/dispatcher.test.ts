@@ -4,7 +4,16 @@
 
 import { describe, it, expect, vi } from 'vitest';
 import { Dispatcher, createEvent, EventCodes } from '../../src/event';
-import type { V7NotificationAppChatMessageCreateData } from '../../src/event';
+import type { V7NotificationAppChatMessageCreateData, MessageEvent } from '../../src/event';
+import { AckError, ApiClientNotSetError, HandlerAggregateError } from '../../src/errors';
+import { AckCode } from '../../src/protocol';
+import {
+  buildEvent,
+  buildV7AppChatMessageCreateData,
+  buildV7AppGroupChatMemberUserData,
+  buildV7ChatInfo,
+  buildV7MessageInfo,
+} from '../../src/testing';
 
 describe('Dispatcher', () => {
   describe('register', () => {
@@ -125,6 +134,50 @@ describe('Dispatcher', () => {
     });
   });
 
+  describe('handler context', () => {
+    it('should pass context to handler', async () => {
+      const dispatcher = new Dispatcher();
+      const fn = vi.fn();
+      const context = { signal: new AbortController().signal, attempt: 1 };
+
+      dispatcher.registerFunc('test.event', fn);
+
+      const event = createEvent('test', 'event', 1704067200, '{}');
+      await dispatcher.handle(event, context);
+
+      expect(fn).toHaveBeenCalledWith(event, context);
+    });
+
+    it('should pass context to typed handler', async () => {
+      const dispatcher = new Dispatcher();
+      const fn = vi.fn();
+      const context = { signal: new AbortController().signal, attempt: 1 };
+
+      dispatcher.onV7AppChatCreate(fn);
+
+      const event = createEvent('kso.app_chat', 'create', 1704067200, '{"chat_id":"chat_1"}');
+      await dispatcher.handle(event, context);
+
+      expect(fn).toHaveBeenCalledWith(expect.objectContaining({ eventCode: event.eventCode }), context);
+    });
+  });
+
+  describe('getHandlerTimeout', () => {
+    it('should return timeout from register options', () => {
+      const dispatcher = new Dispatcher();
+
+      dispatcher
+        .registerFunc('event1.create', () => {}, { timeout: 5000 })
+        .registerFunc('event2.create', () => {})
+        .onV7AppChatMessageCreate(() => {}, { timeout: 1000 });
+
+      expect(dispatcher.getHandlerTimeout('event1.create')).toBe(5000);
+      expect(dispatcher.getHandlerTimeout('event2.create')).toBeUndefined();
+      expect(dispatcher.getHandlerTimeout('unknown.event')).toBeUndefined();
+      expect(dispatcher.getHandlerTimeout(EventCodes.V7_APP_CHAT_MESSAGE_CREATE)).toBe(1000);
+    });
+  });
+
   describe('getEventCodes', () => {
     it('should return all registered event codes', () => {
       const dispatcher = new Dispatcher();
@@ -196,4 +249,615 @@ describe('Dispatcher', () => {
       expect(dispatcher.hasHandler(EventCodes.V7_APP_GROUP_CHAT_MEMBER_ROBOT_DELETE)).toBe(true);
     });
   });
+
+  describe('message event reply', () => {
+    const data = buildV7AppChatMessageCreateData();
+    const event = buildEvent(EventCodes.V7_APP_CHAT_MESSAGE_CREATE, data);
+
+    /**
+     * 分发消息事件，返回处理器收到的事件和消息发送桩
+     */
+    async function dispatchMessage(): Promise<{
+      messageEvent: MessageEvent;
+      sendMessage: ReturnType<typeof vi.fn>;
+    }> {
+      const sendMessage = vi.fn().mockResolvedValue({ message_id: 'reply_1' });
+      let messageEvent: MessageEvent | undefined;
+      const dispatcher = new Dispatcher({ apiClient: { sendMessage } }).onV7AppChatMessageCreate(
+        (e) => {
+          messageEvent = e;
+        }
+      );
+
+      await dispatcher.handle(event);
+      return { messageEvent: messageEvent!, sendMessage };
+    }
+
+    it('should reply to the chat', async () => {
+      const { messageEvent, sendMessage } = await dispatchMessage();
+
+      expect(await messageEvent.reply('hi')).toEqual({ message_id: 'reply_1' });
+      expect(sendMessage).toHaveBeenCalledWith({
+        receiver: { type: 'chat', receiver_id: data.chat.id },
+        type: 'text',
+        content: { text: { content: 'hi', type: 'plain' } },
+      });
+    });
+
+    it('should reply quoting the message', async () => {
+      const { messageEvent, sendMessage } = await dispatchMessage();
+
+      await messageEvent.replyQuote('hi', { markdown: true });
+
+      expect(sendMessage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          content: { text: { content: 'hi', type: 'markdown' } },
+          quote_msg_id: data.message.id,
+        })
+      );
+    });
+
+    it('should mention the sender', async () => {
+      const { messageEvent, sendMessage } = await dispatchMessage();
+
+      await messageEvent.mentionSender('hi');
+
+      expect(sendMessage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          content: { text: { content: '<at id="0"></at> hi', type: 'plain' } },
+          mentions: [{ id: '0', type: 'user', identity: data.sender }],
+        })
+      );
+    });
+
+    it('should reject when api client is not set', async () => {
+      let messageEvent: MessageEvent | undefined;
+      const dispatcher = new Dispatcher().onV7AppChatMessageCreate((e) => {
+        messageEvent = e;
+      });
+
+      await dispatcher.handle(event);
+
+      expect(messageEvent?.parsedData).toEqual(data);
+      await expect(messageEvent?.reply('hi')).rejects.toBeInstanceOf(ApiClientNotSetError);
+    });
+  });
+
+  describe('pattern routes', () => {
+    const USER_CREATE = EventCodes.V7_APP_GROUP_CHAT_MEMBER_USER_CREATE;
+
+    it('should match single segment with * and multiple segments with **', async () => {
+      const dispatcher = new Dispatcher();
+      const single = vi.fn();
+      const multi = vi.fn();
+
+      dispatcher
+        .registerFunc('kso.xz.app.group_chat.*', single)
+        .registerFunc('kso.xz.app.group_chat.member.**', multi);
+
+      await dispatcher.handle(buildEvent(EventCodes.V7_APP_GROUP_CHAT_DELETE, {}));
+      await dispatcher.handle(buildEvent(USER_CREATE, {}));
+      await dispatcher.handle(buildEvent(EventCodes.V7_APP_GROUP_CHAT_MEMBER_ROBOT_DELETE, {}));
+
+      expect(single).toHaveBeenCalledTimes(1);
+      expect(multi).toHaveBeenCalledTimes(2);
+    });
+
+    it('should prefer exact match, then most specific pattern, then fallback', async () => {
+      const dispatcher = new Dispatcher();
+      const calls: string[] = [];
+
+      dispatcher
+        .registerFunc('kso.**', () => void calls.push('kso.**'))
+        .registerFunc('kso.xz.app.group_chat.**', () => void calls.push('group_chat.**'))
+        .registerFunc('kso.xz.app.group_chat.member.*.create', () => void calls.push('*.create'))
+        .registerFunc('kso.xz.app.group_chat.member.**', () => void calls.push('member.**'))
+        .registerFunc(USER_CREATE, () => void calls.push('exact'))
+        .registerFallbackFunc(() => void calls.push('fallback'));
+
+      await dispatcher.handle(buildEvent(USER_CREATE, {}));
+      await dispatcher.handle(buildEvent(EventCodes.V7_APP_GROUP_CHAT_MEMBER_ROBOT_CREATE, {}));
+      await dispatcher.handle(buildEvent(EventCodes.V7_APP_GROUP_CHAT_MEMBER_ROBOT_DELETE, {}));
+      await dispatcher.handle(buildEvent(EventCodes.V7_APP_GROUP_CHAT_DELETE, {}));
+      await dispatcher.handle(buildEvent(EventCodes.V7_APP_CHAT_CREATE, {}));
+      await dispatcher.handle(buildEvent('other.event', {}));
+
+      expect(calls).toEqual([
+        'exact',
+        '*.create',
+        'member.**',
+        'group_chat.**',
+        'kso.**',
+        'fallback',
+      ]);
+    });
+
+    it('should prefer * over ** and earlier registration on equal specificity', async () => {
+      const dispatcher = new Dispatcher();
+      const calls: string[] = [];
+
+      dispatcher
+        .registerFunc('kso.**', () => void calls.push('kso.**'))
+        .registerFunc('kso.*.*', () => void calls.push('kso.*.*'))
+        .registerFunc('*.app_chat.*', () => void calls.push('*.app_chat.*'));
+
+      await dispatcher.handle(buildEvent(EventCodes.V7_APP_CHAT_CREATE, {}));
+
+      expect(calls).toEqual(['kso.*.*']);
+    });
+
+    it('should keep all handlers when registering the same pattern again', async () => {
+      const dispatcher = new Dispatcher();
+      const first = vi.fn();
+      const second = vi.fn();
+
+      dispatcher.registerFunc('kso.**', first).registerFunc('kso.**', second);
+      await dispatcher.handle(buildEvent(USER_CREATE, {}));
+
+      expect(first).toHaveBeenCalledTimes(1);
+      expect(second).toHaveBeenCalledTimes(1);
+      expect(dispatcher.getEventCodes()).toEqual(['kso.**']);
+    });
+
+    it('should resolve patterns in hasHandler, getEventCodes and getHandlerTimeout', () => {
+      const dispatcher = new Dispatcher();
+
+      dispatcher
+        .registerFunc('kso.**', () => {}, { timeout: 1000 })
+        .registerFunc('kso.xz.app.group_chat.member.**', () => {}, { timeout: 2000 })
+        .registerFunc(EventCodes.V7_APP_CHAT_CREATE, () => {});
+
+      expect(dispatcher.hasHandler(USER_CREATE)).toBe(true);
+      expect(dispatcher.hasHandler('kso.xz.app.group_chat.member.**')).toBe(true);
+      expect(dispatcher.hasHandler('other.event')).toBe(false);
+      expect(dispatcher.getEventCodes()).toEqual([
+        EventCodes.V7_APP_CHAT_CREATE,
+        'kso.xz.app.group_chat.member.**',
+        'kso.**',
+      ]);
+      expect(dispatcher.getHandlerTimeout(USER_CREATE)).toBe(2000);
+      expect(dispatcher.getHandlerTimeout(EventCodes.V7_APP_GROUP_CHAT_DELETE)).toBe(1000);
+      expect(dispatcher.getHandlerTimeout(EventCodes.V7_APP_CHAT_CREATE)).toBeUndefined();
+    });
+  });
+
+  describe('multiple handlers', () => {
+    it('should run all handlers of the same event code by priority', async () => {
+      const dispatcher = new Dispatcher();
+      const calls: string[] = [];
+
+      dispatcher
+        .registerFunc('test.event', () => void calls.push('first'))
+        .registerFunc('test.event', () => void calls.push('low'), { priority: -1 })
+        .registerFunc('test.event', () => void calls.push('high'), { priority: 10 })
+        .registerFunc('test.event', () => void calls.push('second'));
+
+      await dispatcher.handle(createEvent('test', 'event', 1704067200, '{}'));
+
+      expect(calls).toEqual(['high', 'first', 'second', 'low']);
+      expect(dispatcher.getEventCodes()).toEqual(['test.event']);
+    });
+
+    it('should wait for each handler in sequential mode', async () => {
+      const dispatcher = new Dispatcher();
+      const calls: string[] = [];
+
+      dispatcher
+        .registerFunc('test.event', async () => {
+          await new Promise((resolve) => setTimeout(resolve, 20));
+          calls.push('slow');
+        })
+        .registerFunc('test.event', () => void calls.push('fast'));
+
+      await dispatcher.handle(createEvent('test', 'event', 1704067200, '{}'));
+
+      expect(calls).toEqual(['slow', 'fast']);
+    });
+
+    it('should run handlers concurrently in parallel mode', async () => {
+      const dispatcher = new Dispatcher({ execution: 'parallel' });
+      const calls: string[] = [];
+
+      dispatcher
+        .registerFunc('test.event', async () => {
+          await new Promise((resolve) => setTimeout(resolve, 20));
+          calls.push('slow');
+        })
+        .registerFunc('test.event', () => void calls.push('fast'));
+
+      await dispatcher.handle(createEvent('test', 'event', 1704067200, '{}'));
+
+      expect(calls).toEqual(['fast', 'slow']);
+    });
+
+    it.each(['sequential', 'parallel'] as const)(
+      'should run remaining handlers and rethrow single failure in %s mode',
+      async (execution) => {
+        const dispatcher = new Dispatcher({ execution });
+        const error = AckError.retryLater('busy');
+        const other = vi.fn();
+
+        dispatcher
+          .registerFunc('test.event', () => {
+            throw error;
+          })
+          .registerFunc('test.event', other);
+
+        await expect(
+          dispatcher.handle(createEvent('test', 'event', 1704067200, '{}'))
+        ).rejects.toBe(error);
+        expect(other).toHaveBeenCalledTimes(1);
+      }
+    );
+
+    it('should aggregate multiple failures', async () => {
+      const dispatcher = new Dispatcher({ execution: 'parallel' });
+
+      dispatcher
+        .registerFunc('test.event', () => {
+          throw new Error('analytics down');
+        })
+        .registerFunc('test.event', () => Promise.reject(AckError.reject('bad message')), {
+          priority: 1,
+        });
+
+      const error: unknown = await dispatcher
+        .handle(createEvent('test', 'event', 1704067200, '{}'))
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(HandlerAggregateError);
+      const aggregate = error as HandlerAggregateError;
+      expect(aggregate.message).toBe('2 handlers failed: bad message; analytics down');
+      expect(aggregate.errors.map((e) => e.message)).toEqual(['bad message', 'analytics down']);
+      expect(aggregate.code).toBe(AckCode.FAILED);
+    });
+
+    it('should use shared ack code when all failures agree', () => {
+      const error = new HandlerAggregateError([AckError.reject('a'), AckError.reject('b')]);
+
+      expect(error.code).toBe(AckCode.REJECTED);
+    });
+
+    it('should treat returned AckError as thrown', async () => {
+      const dispatcher = new Dispatcher();
+      dispatcher
+        .registerFunc('test.event', () => AckError.reject('a'))
+        .registerFunc('test.event', () => Promise.resolve(AckError.reject('b')))
+        .registerFallbackFunc(() => AckError.retryLater('c'));
+
+      const error: unknown = await dispatcher
+        .handle(createEvent('test', 'event', 1704067200, '{}'))
+        .catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(HandlerAggregateError);
+      expect((error as HandlerAggregateError).code).toBe(AckCode.REJECTED);
+
+      await expect(
+        dispatcher.handle(createEvent('test', 'other', 1704067200, '{}'))
+      ).rejects.toMatchObject({ code: AckCode.RETRY_LATER, message: 'c' });
+    });
+
+    it('should stop sequential handlers after cancellation', async () => {
+      const dispatcher = new Dispatcher();
+      const controller = new AbortController();
+      const second = vi.fn();
+
+      dispatcher
+        .registerFunc('test.event', () => controller.abort())
+        .registerFunc('test.event', second);
+
+      await dispatcher.handle(createEvent('test', 'event', 1704067200, '{}'), {
+        signal: controller.signal,
+        attempt: 1,
+      });
+
+      expect(second).not.toHaveBeenCalled();
+    });
+
+    it('should resolve handler timeout across handlers', () => {
+      const dispatcher = new Dispatcher();
+
+      dispatcher
+        .registerFunc('a.event', () => {}, { timeout: 1000 })
+        .registerFunc('a.event', () => {}, { timeout: 3000 })
+        .registerFunc('a.event', () => {})
+        .registerFunc('b.event', () => {}, { timeout: 1000 })
+        .registerFunc('b.event', () => {}, { timeout: 0 });
+
+      expect(dispatcher.getHandlerTimeout('a.event')).toBe(3000);
+      expect(dispatcher.getHandlerTimeout('b.event')).toBe(0);
+    });
+  });
+
+  describe('middleware', () => {
+    it('should wrap dispatch in registration order', async () => {
+      const dispatcher = new Dispatcher();
+      const calls: string[] = [];
+
+      dispatcher
+        .use(async (event, next) => {
+          calls.push('outer:before');
+          await next();
+          calls.push('outer:after');
+        })
+        .use(async (event, next) => {
+          calls.push(`inner:${event.eventCode}`);
+          await next();
+        })
+        .registerFunc('test.event', () => void calls.push('handler'));
+
+      await dispatcher.handle(createEvent('test', 'event', 1704067200, '{}'));
+
+      expect(calls).toEqual(['outer:before', 'inner:test.event', 'handler', 'outer:after']);
+    });
+
+    it('should wrap fallback and unmatched events', async () => {
+      const dispatcher = new Dispatcher();
+      const seen: string[] = [];
+      dispatcher.use((event, next) => {
+        seen.push(event.eventCode);
+        return next();
+      });
+
+      await dispatcher.handle(createEvent('unknown', 'event', 1704067200, '{}'));
+      const fallback = vi.fn();
+      dispatcher.registerFallbackFunc(fallback);
+      await dispatcher.handle(createEvent('other', 'event', 1704067200, '{}'));
+
+      expect(seen).toEqual(['unknown.event', 'other.event']);
+      expect(fallback).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip handlers when next is not called', async () => {
+      const dispatcher = new Dispatcher();
+      const handler = vi.fn();
+
+      dispatcher
+        .use(async (event, next) => {
+          const data = JSON.parse(event.data) as { company_id?: string };
+          if (data.company_id === 'company_1') {
+            await next();
+          }
+        })
+        .registerFunc('test.event', handler);
+
+      await dispatcher.handle(createEvent('test', 'event', 1704067200, '{"company_id":"other"}'));
+      await dispatcher.handle(
+        createEvent('test', 'event', 1704067200, '{"company_id":"company_1"}')
+      );
+
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should translate handler errors', async () => {
+      const dispatcher = new Dispatcher();
+
+      dispatcher
+        .use(async (event, next) => {
+          try {
+            await next();
+          } catch (error) {
+            throw AckError.reject((error as Error).message);
+          }
+        })
+        .registerFunc('test.event', () => {
+          throw new Error('unsupported');
+        });
+
+      const error: unknown = await dispatcher
+        .handle(createEvent('test', 'event', 1704067200, '{}'))
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(AckError);
+      expect((error as AckError).code).toBe(AckCode.REJECTED);
+    });
+
+    it('should apply scoped middleware to matching event code or pattern only', async () => {
+      const dispatcher = new Dispatcher();
+      const calls: string[] = [];
+      const record =
+        (name: string) =>
+        (event: { eventCode: string }, next: () => Promise<void>): Promise<void> => {
+          calls.push(`${name}:${event.eventCode}`);
+          return next();
+        };
+
+      dispatcher
+        .use(EventCodes.V7_APP_CHAT_CREATE, record('exact'))
+        .use('kso.xz.app.group_chat.member.**', record('pattern'))
+        .use(record('global'))
+        .registerFallbackFunc(() => {});
+
+      await dispatcher.handle(buildEvent(EventCodes.V7_APP_CHAT_CREATE, {}));
+      await dispatcher.handle(buildEvent(EventCodes.V7_APP_GROUP_CHAT_MEMBER_USER_CREATE, {}));
+      await dispatcher.handle(buildEvent(EventCodes.V7_APP_GROUP_CHAT_DELETE, {}));
+
+      expect(calls).toEqual([
+        `exact:${EventCodes.V7_APP_CHAT_CREATE}`,
+        `global:${EventCodes.V7_APP_CHAT_CREATE}`,
+        `pattern:${EventCodes.V7_APP_GROUP_CHAT_MEMBER_USER_CREATE}`,
+        `global:${EventCodes.V7_APP_GROUP_CHAT_MEMBER_USER_CREATE}`,
+        `global:${EventCodes.V7_APP_GROUP_CHAT_DELETE}`,
+      ]);
+    });
+
+    it('should pass handler context to middleware and handlers', async () => {
+      const dispatcher = new Dispatcher();
+      const context = { signal: new AbortController().signal, attempt: 2 };
+      const middleware = vi.fn((_event: unknown, next: () => Promise<void>) => next());
+      const handler = vi.fn();
+
+      dispatcher.use(middleware).registerFunc('test.event', handler);
+      const event = createEvent('test', 'event', 1704067200, '{}');
+      await dispatcher.handle(event, context);
+
+      expect(middleware).toHaveBeenCalledWith(event, expect.any(Function), context);
+      expect(handler).toHaveBeenCalledWith(event, context);
+    });
+
+    it('should reject when next is called multiple times', async () => {
+      const dispatcher = new Dispatcher();
+      dispatcher.use(async (event, next) => {
+        await next();
+        await next();
+      });
+
+      await expect(
+        dispatcher.handle(createEvent('test', 'event', 1704067200, '{}'))
+      ).rejects.toThrow('next() called multiple times');
+    });
+  });
+
+  describe('filters', () => {
+    const MESSAGE_CREATE = EventCodes.V7_APP_CHAT_MESSAGE_CREATE;
+
+    function messageEvent(overrides: Partial<V7NotificationAppChatMessageCreateData> = {}) {
+      return buildEvent(MESSAGE_CREATE, buildV7AppChatMessageCreateData(overrides));
+    }
+
+    it('should filter messages by chat type, sender type and company id', async () => {
+      const dispatcher = new Dispatcher();
+      const handler = vi.fn();
+      dispatcher.onV7AppChatMessageCreate(handler, {
+        chatType: 'group',
+        senderType: ['user'],
+        companyId: ['company_1', 'company_2'],
+      });
+
+      await dispatcher.handle(messageEvent());
+      await dispatcher.handle(messageEvent({ chat: buildV7ChatInfo({ type: 'p2p' }) }));
+      await dispatcher.handle(messageEvent({ sender: { type: 'app', id: 'app_1' } }));
+      await dispatcher.handle(messageEvent({ company_id: 'company_3' }));
+
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should filter messages by mentions', async () => {
+      const dispatcher = new Dispatcher();
+      const toBot = vi.fn();
+      const withoutMention = vi.fn();
+      dispatcher
+        .onV7AppChatMessageCreate(toBot, { mentioned: 'bot_1' })
+        .onV7AppChatMessageCreate(withoutMention, { mentioned: false });
+
+      const mention = (type: 'user' | 'all', id?: string) =>
+        messageEvent({
+          message: buildV7MessageInfo({ mentions: [{ type, id, offset: 0, length: 4 }] }),
+        });
+      await dispatcher.handle(mention('user', 'bot_1'));
+      await dispatcher.handle(mention('all'));
+      await dispatcher.handle(mention('user', 'user_2'));
+      await dispatcher.handle(messageEvent());
+
+      expect(toBot).toHaveBeenCalledTimes(2);
+      expect(withoutMention).toHaveBeenCalledTimes(1);
+    });
+
+    it('should apply custom data predicate on typed registrations', async () => {
+      const dispatcher = new Dispatcher();
+      const handler = vi.fn();
+      dispatcher.onV7AppGroupChatMemberUserCreate(handler, {
+        where: (data) => data.users.length > 1,
+      });
+
+      await dispatcher.handle(
+        buildEvent(
+          EventCodes.V7_APP_GROUP_CHAT_MEMBER_USER_CREATE,
+          buildV7AppGroupChatMemberUserData()
+        )
+      );
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should fall through to next matching pattern and then fallback', async () => {
+      const dispatcher = new Dispatcher();
+      const calls: string[] = [];
+
+      dispatcher
+        .onV7AppChatMessageCreate(() => void calls.push('group'), { chatType: 'group' })
+        .registerFunc('kso.app_chat.*.create', () => void calls.push('pattern'), {
+          filter: (event) => event.data.includes('company_1'),
+        })
+        .registerFallbackFunc(() => void calls.push('fallback'));
+
+      await dispatcher.handle(messageEvent());
+      await dispatcher.handle(messageEvent({ chat: buildV7ChatInfo({ type: 'p2p' }) }));
+      await dispatcher.handle(
+        messageEvent({ chat: buildV7ChatInfo({ type: 'p2p' }), company_id: 'company_2' })
+      );
+
+      expect(calls).toEqual(['group', 'pattern', 'fallback']);
+    });
+
+    it('should only run matching handlers of the same event code', async () => {
+      const dispatcher = new Dispatcher();
+      const calls: string[] = [];
+
+      dispatcher
+        .onV7AppChatMessageCreate(() => void calls.push('group'), { chatType: 'group' })
+        .onV7AppChatMessageCreate(() => void calls.push('p2p'), { chatType: 'p2p' })
+        .onV7AppChatMessageCreate(() => void calls.push('all'));
+
+      await dispatcher.handle(messageEvent({ chat: buildV7ChatInfo({ type: 'p2p' }) }));
+
+      expect(calls).toEqual(['p2p', 'all']);
+    });
+
+    it('should resolve handler timeout with filters for events', () => {
+      const dispatcher = new Dispatcher();
+      dispatcher
+        .onV7AppChatMessageCreate(() => {}, { chatType: 'group', timeout: 1000 })
+        .registerFunc('kso.**', () => {}, { timeout: 5000 });
+
+      expect(dispatcher.getHandlerTimeout(messageEvent())).toBe(1000);
+      expect(
+        dispatcher.getHandlerTimeout(messageEvent({ chat: buildV7ChatInfo({ type: 'p2p' }) }))
+      ).toBe(5000);
+      expect(dispatcher.getHandlerTimeout(MESSAGE_CREATE)).toBe(1000);
+    });
+
+    it('should treat malformed data as not matching filters', async () => {
+      const dispatcher = new Dispatcher();
+      const handler = vi.fn();
+      const fallback = vi.fn();
+      dispatcher
+        .onV7AppChatMessageCreate(handler, { chatType: 'group' })
+        .onV7AppGroupChatMemberUserCreate(handler, { where: (data) => data.users.length > 1 })
+        .registerFallbackFunc(fallback);
+
+      const missingFields = buildEvent(MESSAGE_CREATE, { company_id: 'x' });
+      const invalidJson = buildEvent(EventCodes.V7_APP_GROUP_CHAT_MEMBER_USER_CREATE, '{');
+
+      expect(dispatcher.getHandlerTimeout(missingFields)).toBeUndefined();
+      await dispatcher.handle(missingFields);
+      await dispatcher.handle(invalidJson);
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(fallback.mock.calls.map(([event]) => event)).toEqual([missingFields, invalidJson]);
+    });
+
+    it('should parse data and run filters once per event', async () => {
+      const dispatcher = new Dispatcher();
+      const where = vi.fn(() => true);
+      const parse = vi.spyOn(JSON, 'parse');
+      const received: unknown[] = [];
+      dispatcher
+        .onV7AppChatMessageCreate((event) => void received.push(event.parsedData), {
+          where,
+          timeout: 1000,
+        })
+        .onV7AppChatMessageCreate((event) => void received.push(event.parsedData));
+
+      const event = messageEvent();
+      expect(dispatcher.getHandlerTimeout(event)).toBe(1000);
+      await dispatcher.handle(event);
+      const parseCalls = parse.mock.calls.length;
+      parse.mockRestore();
+
+      expect(where).toHaveBeenCalledTimes(1);
+      expect(parseCalls).toBe(1);
+      expect(received).toHaveLength(2);
+      expect(received[0]).toBe(received[1]);
+    });
+  });
 });
@@ -0,0 +1,26 @@
+/**
+ * 错误类型单元测试
+ */
+
+import { describe, it, expect } from 'vitest';
+import { AckError, OpenEventError } from '../../src/errors';
+import { AckCode } from '../../src/protocol';
+
+describe('errors', () => {
+  describe('AckError', () => {
+    it('should carry ack code and message', () => {
+      const error = new AckError(AckCode.RETRY_LATER, 'database unavailable');
+
+      expect(error).toBeInstanceOf(AckError);
+      expect(error).toBeInstanceOf(OpenEventError);
+      expect(error.name).toBe('AckError');
+      expect(error.code).toBe(503);
+      expect(error.message).toBe('database unavailable');
+    });
+
+    it('should create reject and retry-later errors', () => {
+      expect(AckError.reject('unsupported').code).toBe(AckCode.REJECTED);
+      expect(AckError.retryLater('busy').code).toBe(AckCode.RETRY_LATER);
+    });
+  });
+});
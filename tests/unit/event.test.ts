@@ -3,7 +3,13 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { buildEventCode, createEvent, createTypedEvent, EventCodes } from '../../src/event';
+import {
+  buildEventCode,
+  createEvent,
+  createTypedEvent,
+  defaultOrderingKey,
+  EventCodes,
+} from '../../src/event';
 
 describe('event', () => {
   describe('buildEventCode', () => {
@@ -56,4 +62,31 @@ describe('event', () => {
       expect(EventCodes.V7_APP_GROUP_CHAT_MEMBER_ROBOT_DELETE).toBe('kso.xz.app.group_chat.member.robot.delete');
     });
   });
+
+  describe('defaultOrderingKey', () => {
+    it('should use chat.id for message events', () => {
+      const event = createEvent(
+        'kso.app_chat.message',
+        'create',
+        1704067200,
+        JSON.stringify({ chat: { id: 'chat_456', type: 'group' } })
+      );
+      expect(defaultOrderingKey(event)).toBe('chat_456');
+    });
+
+    it('should use chat_id for chat events', () => {
+      const event = createEvent(
+        'kso.xz.app.group_chat',
+        'delete',
+        1704067200,
+        JSON.stringify({ chat_id: 'chat_789' })
+      );
+      expect(defaultOrderingKey(event)).toBe('chat_789');
+    });
+
+    it('should return undefined when no chat id is present', () => {
+      expect(defaultOrderingKey(createEvent('test', 'event', 1704067200, '{}'))).toBeUndefined();
+      expect(defaultOrderingKey(createEvent('test', 'event', 1704067200, 'invalid'))).toBeUndefined();
+    });
+  });
 });
@@ -0,0 +1,82 @@
+/**
+ * 按 key 串行调度单元测试
+ */
+
+import { describe, it, expect } from 'vitest';
+import { KeyedSerializer } from '../../src/queue';
+
+/**
+ * 等待指定毫秒
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe('KeyedSerializer', () => {
+  it('should run tasks with the same key serially', async () => {
+    const serializer = new KeyedSerializer();
+    const order: string[] = [];
+
+    await Promise.all([
+      serializer.run('chat_1', async () => {
+        await sleep(20);
+        order.push('a');
+      }),
+      serializer.run('chat_1', async () => {
+        await sleep(1);
+        order.push('b');
+      }),
+    ]);
+
+    expect(order).toEqual(['a', 'b']);
+  });
+
+  it('should run tasks with different keys concurrently', async () => {
+    const serializer = new KeyedSerializer();
+    const order: string[] = [];
+
+    await Promise.all([
+      serializer.run('chat_1', async () => {
+        await sleep(20);
+        order.push('a');
+      }),
+      serializer.run('chat_2', async () => {
+        await sleep(1);
+        order.push('b');
+      }),
+    ]);
+
+    expect(order).toEqual(['b', 'a']);
+  });
+
+  it('should track waiting tasks and release keys', async () => {
+    const serializer = new KeyedSerializer();
+
+    const first = serializer.run('chat_1', () => sleep(10));
+    const second = serializer.run('chat_1', () => sleep(1));
+
+    expect(serializer.size).toBe(1);
+    expect(serializer.keys).toBe(1);
+
+    await Promise.all([first, second]);
+
+    expect(serializer.size).toBe(0);
+    expect(serializer.keys).toBe(0);
+  });
+
+  it('should continue with the next task after a failure', async () => {
+    const serializer = new KeyedSerializer();
+    const error = new Error('task error');
+    let ran = false;
+
+    const first = serializer.run('chat_1', () => Promise.reject(error));
+    const second = serializer.run('chat_1', () => {
+      ran = true;
+      return Promise.resolve();
+    });
+
+    await expect(first).rejects.toThrow(error);
+    await second;
+    expect(ran).toBe(true);
+  });
+});
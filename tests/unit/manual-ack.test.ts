@@ -0,0 +1,79 @@
+/**
+ * 手动 ACK 单元测试
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ManualAck } from '../../src/ack';
+
+describe('ManualAck', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should send success ack once', async () => {
+    const send = vi.fn();
+    const ackControl = new ManualAck('nonce_1', 1000, send, vi.fn());
+
+    expect(ackControl.acknowledged).toBe(false);
+
+    ackControl.ack();
+    ackControl.ack();
+    ackControl.nack(500, 'ignored');
+
+    await ackControl.settled;
+    expect(ackControl.acknowledged).toBe(true);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(send).toHaveBeenCalledWith(200, undefined);
+  });
+
+  it('should send failure ack with code and message', () => {
+    const send = vi.fn();
+    const ackControl = new ManualAck('nonce_1', 1000, send, vi.fn());
+
+    ackControl.nack(503, 'retry later');
+
+    expect(send).toHaveBeenCalledWith(503, 'retry later');
+  });
+
+  it('should default nack code to 500', () => {
+    const send = vi.fn();
+    const ackControl = new ManualAck('nonce_1', 1000, send, vi.fn());
+
+    ackControl.nack();
+
+    expect(send).toHaveBeenCalledWith(500, undefined);
+  });
+
+  it('should send failure ack after deadline', async () => {
+    vi.useFakeTimers();
+    const send = vi.fn();
+    const onExpire = vi.fn();
+    const ackControl = new ManualAck('nonce_1', 1000, send, onExpire);
+
+    vi.advanceTimersByTime(999);
+    expect(send).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    await ackControl.settled;
+
+    expect(onExpire).toHaveBeenCalledTimes(1);
+    expect(send).toHaveBeenCalledWith(500, 'ack deadline exceeded');
+
+    // 超时后的确认被忽略
+    ackControl.ack();
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not expire after ack', () => {
+    vi.useFakeTimers();
+    const send = vi.fn();
+    const onExpire = vi.fn();
+    const ackControl = new ManualAck('nonce_1', 1000, send, onExpire);
+
+    ackControl.ack();
+    vi.advanceTimersByTime(2000);
+
+    expect(onExpire).not.toHaveBeenCalled();
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * 录制回放模块单元测试
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, stat } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { EventRecorder, ReplaySource } from '../../src/recorder';
+import type { RecordedEvent } from '../../src/recorder';
+import { Client } from '../../src/client';
+import { Dispatcher } from '../../src/event';
+import { NopLogger } from '../../src/logger';
+import { hmacSha256, encryptForTest } from '../../src/crypto';
+import type { EventMessage } from '../../src/protocol';
+
+const APP_ID = 'test_app_id';
+const APP_SECRET = 'test_app_secret';
+
+/**
+ * 创建测试用加密事件消息
+ */
+function createMessage(nonce: string, data = '{"key":"value"}', secret = APP_SECRET): EventMessage {
+  const topic = 'kso.app_chat.message';
+  const time = 1704067200;
+  const encryptedData = encryptForTest(data, secret, nonce);
+  return {
+    topic,
+    operation: 'create',
+    time,
+    nonce,
+    signature: hmacSha256(`${APP_ID}:${topic}:${nonce}:${time}:${encryptedData}`, secret),
+    encrypted_data: encryptedData,
+  };
+}
+
+/**
+ * 读取录制文件
+ */
+async function readRecords(file: string): Promise<RecordedEvent[]> {
+  const content = await readFile(file, 'utf-8');
+  return content
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => JSON.parse(line) as RecordedEvent);
+}
+
+describe('recorder', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'open-event-recorder-'));
+    file = path.join(dir, 'events.jsonl');
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe('EventRecorder', () => {
+    it('should record raw messages with receive time', async () => {
+      const recorder = new EventRecorder({ path: file });
+      const message = createMessage('nonce_1_1234567890abcdef');
+
+      await recorder.record(message, 1000);
+      await recorder.record(createMessage('nonce_2_1234567890abcdef'), 2000);
+
+      const records = await readRecords(file);
+      expect(records).toEqual([
+        { receivedAt: 1000, message },
+        { receivedAt: 2000, message: createMessage('nonce_2_1234567890abcdef') },
+      ]);
+    });
+
+    it('should rotate files when exceeding max size', async () => {
+      const message = createMessage('nonce_1_1234567890abcdef');
+      const lineSize = Buffer.byteLength(JSON.stringify({ receivedAt: 1000, message }) + '\n');
+      const recorder = new EventRecorder({ path: file, maxFileSize: lineSize * 2, maxFiles: 2 });
+
+      for (let i = 0; i < 7; i++) {
+        await recorder.record(message, 1000);
+      }
+
+      expect((await readRecords(file)).length).toBe(1);
+      expect((await readRecords(`${file}.1`)).length).toBe(2);
+      expect((await readRecords(`${file}.2`)).length).toBe(2);
+      await expect(stat(`${file}.3`)).rejects.toThrow();
+    });
+  });
+
+  describe('ReplaySource', () => {
+    it('should yield records from multiple files in order', async () => {
+      const recorder = new EventRecorder({ path: file });
+      await recorder.record(createMessage('nonce_1_1234567890abcdef'), 1000);
+      const other = path.join(dir, 'other.jsonl');
+      await new EventRecorder({ path: other }).record(
+        createMessage('nonce_2_1234567890abcdef'),
+        2000
+      );
+
+      const nonces: string[] = [];
+      for await (const record of new ReplaySource({ path: [file, other] })) {
+        nonces.push(record.message.nonce);
+      }
+
+      expect(nonces).toEqual(['nonce_1_1234567890abcdef', 'nonce_2_1234567890abcdef']);
+    });
+
+    it('should pace records by receive time', async () => {
+      vi.useFakeTimers();
+      const recorder = new EventRecorder({ path: file });
+      await recorder.record(createMessage('nonce_1_1234567890abcdef'), 1000);
+      await recorder.record(createMessage('nonce_2_1234567890abcdef'), 5000);
+
+      const iterator = new ReplaySource({ path: file, pacing: 2 })[Symbol.asyncIterator]();
+      await iterator.next();
+
+      let done = false;
+      const second = iterator.next().then(() => {
+        done = true;
+      });
+      await vi.advanceTimersByTimeAsync(1999);
+      expect(done).toBe(false);
+      await vi.advanceTimersByTimeAsync(1);
+      await second;
+      expect(done).toBe(true);
+    });
+
+    it('should reject invalid pacing', () => {
+      expect(() => new ReplaySource({ path: file, pacing: 0 })).toThrow(RangeError);
+    });
+  });
+
+  describe('Client.replay', () => {
+    it('should replay records through verify, decrypt and dispatcher', async () => {
+      const recorder = new EventRecorder({ path: file });
+      await recorder.record(createMessage('nonce_1_1234567890abcdef', '{"n":1}'), 1000);
+      await recorder.record(
+        createMessage('nonce_2_1234567890abcdef', '{"n":2}', 'wrong_secret'),
+        2000
+      );
+      await recorder.record(createMessage('nonce_3_1234567890abcdef', '{"n":3}'), 3000);
+
+      const received: string[] = [];
+      const dispatcher = new Dispatcher().registerFunc('kso.app_chat.message.create', (event) => {
+        received.push(event.data);
+        if (event.data === '{"n":3}') {
+          throw new Error('Handler error');
+        }
+        return Promise.resolve();
+      });
+      const client = new Client({
+        appId: APP_ID,
+        appSecret: APP_SECRET,
+        logger: new NopLogger(),
+        maxEventAge: 60000,
+        dispatcher,
+      });
+
+      const result = await client.replay(new ReplaySource({ path: file }));
+
+      expect(result).toEqual({ total: 3, succeeded: 1, failed: 1, dropped: 1 });
+      expect(received).toEqual(['{"n":1}', '{"n":3}']);
+    });
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * 密钥模块单元测试
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { SecretCache } from '../../src/secret';
+import { SecretProviderError, ClientError } from '../../src/errors';
+
+describe('SecretCache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should return static secrets synchronously', async () => {
+    const cache = new SecretCache(['current', 'previous'], 1000);
+
+    expect(cache.peek()).toEqual(['current', 'previous']);
+    expect(await cache.get()).toEqual(['current', 'previous']);
+    expect(await cache.refresh()).toEqual(['current', 'previous']);
+  });
+
+  it('should reject empty static secrets', () => {
+    expect(() => new SecretCache([], 1000)).toThrow('appSecret must not be empty');
+    expect(() => new SecretCache('', 1000)).toThrow(TypeError);
+  });
+
+  it('should cache provider result until ttl expires', async () => {
+    vi.useFakeTimers();
+    const provider = vi.fn().mockResolvedValueOnce('first').mockResolvedValueOnce(['second']);
+    const cache = new SecretCache(provider, 1000);
+
+    expect(cache.peek()).toBeUndefined();
+    expect(await cache.get()).toEqual(['first']);
+    expect(cache.peek()).toEqual(['first']);
+    expect(await cache.get()).toEqual(['first']);
+    expect(provider).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(1000);
+    expect(cache.peek()).toBeUndefined();
+    expect(await cache.get()).toEqual(['second']);
+    expect(provider).toHaveBeenCalledTimes(2);
+  });
+
+  it('should bypass cache on refresh', async () => {
+    const provider = vi.fn().mockReturnValueOnce('first').mockReturnValueOnce('second');
+    const cache = new SecretCache(provider, 60000);
+
+    expect(await cache.get()).toEqual(['first']);
+    expect(await cache.refresh()).toEqual(['second']);
+    expect(cache.peek()).toEqual(['second']);
+  });
+
+  it('should keep last loaded secrets after ttl expires or provider fails', async () => {
+    vi.useFakeTimers();
+    const provider = vi
+      .fn()
+      .mockResolvedValueOnce('first')
+      .mockRejectedValueOnce(new Error('vault unavailable'));
+    const cache = new SecretCache(provider, 1000);
+
+    expect(cache.stale()).toBeUndefined();
+    await cache.get();
+    vi.advanceTimersByTime(1000);
+    await expect(cache.refresh()).rejects.toBeInstanceOf(SecretProviderError);
+
+    expect(cache.peek()).toBeUndefined();
+    expect(cache.stale()).toEqual(['first']);
+  });
+
+  it('should share concurrent provider calls', async () => {
+    let resolve!: (secret: string) => void;
+    const provider = vi.fn(() => new Promise<string>((r) => (resolve = r)));
+    const cache = new SecretCache(provider, 60000);
+
+    const results = Promise.all([cache.get(), cache.get(), cache.refresh()]);
+    resolve('secret');
+
+    expect(await results).toEqual([['secret'], ['secret'], ['secret']]);
+    expect(provider).toHaveBeenCalledTimes(1);
+  });
+
+  it('should wrap provider failure as SecretProviderError', async () => {
+    const provider = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('vault unavailable'))
+      .mockResolvedValueOnce('secret');
+    const cache = new SecretCache(provider, 60000);
+
+    const error: unknown = await cache.get().catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(SecretProviderError);
+    expect(error).toBeInstanceOf(ClientError);
+    expect((error as Error).message).toBe('Secret provider failed: vault unavailable');
+
+    // 失败不缓存，下次调用重新加载
+    expect(await cache.get()).toEqual(['secret']);
+  });
+
+  it('should reject empty provider result', async () => {
+    const cache = new SecretCache(() => [], 60000);
+
+    await expect(cache.get()).rejects.toThrow('Secret provider returned no secret');
+  });
+});
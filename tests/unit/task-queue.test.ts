@@ -0,0 +1,101 @@
+/**
+ * 任务队列单元测试
+ */
+
+import { describe, it, expect } from 'vitest';
+import { TaskQueue } from '../../src/queue';
+
+/**
+ * 创建可手动完成的任务
+ */
+function deferred(): { promise: Promise<void>; resolve: () => void } {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => {
+    resolve = r;
+  });
+  return { promise, resolve };
+}
+
+describe('TaskQueue', () => {
+  it('should reject invalid concurrency', () => {
+    expect(() => new TaskQueue(0)).toThrow(RangeError);
+  });
+
+  it('should limit running tasks to concurrency', async () => {
+    const queue = new TaskQueue(2);
+    const gates = [deferred(), deferred(), deferred()];
+
+    const done = gates.map((gate) => queue.push(() => gate.promise));
+
+    expect(queue.running).toBe(2);
+    expect(queue.size).toBe(1);
+
+    gates[0]!.resolve();
+    await done[0];
+
+    expect(queue.running).toBe(2);
+    expect(queue.size).toBe(0);
+
+    gates[1]!.resolve();
+    gates[2]!.resolve();
+    await Promise.all(done);
+
+    expect(queue.running).toBe(0);
+  });
+
+  it('should run tasks in submission order', async () => {
+    const queue = new TaskQueue(1);
+    const order: number[] = [];
+
+    await Promise.all(
+      [1, 2, 3].map((n) =>
+        queue.push(async () => {
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          order.push(n);
+        })
+      )
+    );
+
+    expect(order).toEqual([1, 2, 3]);
+  });
+
+  it('should not limit when concurrency is Infinity', () => {
+    const queue = new TaskQueue(Infinity);
+    const gate = deferred();
+
+    for (let i = 0; i < 10; i++) {
+      void queue.push(() => gate.promise);
+    }
+
+    expect(queue.running).toBe(10);
+    expect(queue.size).toBe(0);
+    gate.resolve();
+  });
+
+  it('should propagate task errors', async () => {
+    const queue = new TaskQueue(1);
+    const error = new Error('task error');
+
+    await expect(queue.push(() => Promise.reject(error))).rejects.toThrow(error);
+    expect(queue.running).toBe(0);
+  });
+
+  it('should clear pending tasks without running them', async () => {
+    const queue = new TaskQueue(1);
+    const gate = deferred();
+    let ran = false;
+
+    void queue.push(() => gate.promise);
+    const pending = queue.push(() => {
+      ran = true;
+      return Promise.resolve();
+    });
+
+    expect(queue.clear()).toBe(1);
+    await pending;
+    gate.resolve();
+
+    expect(ran).toBe(false);
+    expect(queue.size).toBe(0);
+  });
+});
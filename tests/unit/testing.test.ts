@@ -0,0 +1,118 @@
+/**
+ * 测试工具单元测试
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  encrypt,
+  buildEventMessage,
+  buildEvent,
+  buildV7MessageInfo,
+  buildV7AppChatMessageCreateData,
+  buildV7AppChatCreateData,
+  buildV7AppGroupChatData,
+  buildV7AppGroupChatMemberUserData,
+  buildV7AppGroupChatMemberRobotData,
+} from '../../src/testing';
+import { decrypt, verifySignature } from '../../src/crypto';
+import { Dispatcher, EventCodes } from '../../src/event';
+
+const APP_ID = 'test_app_id';
+const APP_SECRET = 'test_app_secret';
+
+describe('testing', () => {
+  describe('encrypt', () => {
+    it('should be decrypted by decrypt', () => {
+      const nonce = 'nonce_1234567890abcdef';
+      const encryptedData = encrypt({ secretKey: APP_SECRET, data: '{"key":"value"}', nonce });
+
+      expect(decrypt({ secretKey: APP_SECRET, encryptedData, nonce })).toBe('{"key":"value"}');
+    });
+  });
+
+  describe('buildEventMessage', () => {
+    it('should build verifiable and decryptable message', () => {
+      const msg = buildEventMessage({
+        topic: 'kso.app_chat.message',
+        operation: 'create',
+        data: { key: 'value' },
+        appId: APP_ID,
+        appSecret: APP_SECRET,
+      });
+
+      expect(msg.nonce.length).toBeGreaterThanOrEqual(16);
+      expect(Math.abs(msg.time - Date.now() / 1000)).toBeLessThan(5);
+      expect(
+        verifySignature({
+          accessKey: APP_ID,
+          secretKey: APP_SECRET,
+          topic: msg.topic,
+          nonce: msg.nonce,
+          time: msg.time,
+          encryptedData: msg.encrypted_data,
+          signature: msg.signature,
+        })
+      ).toBe(true);
+      expect(
+        decrypt({ secretKey: APP_SECRET, encryptedData: msg.encrypted_data, nonce: msg.nonce })
+      ).toBe('{"key":"value"}');
+    });
+
+    it('should use given nonce and time', () => {
+      const msg = buildEventMessage({
+        topic: 'test',
+        operation: 'event',
+        data: 'raw',
+        appId: APP_ID,
+        appSecret: APP_SECRET,
+        nonce: 'nonce_1234567890abcdef',
+        time: 1704067200,
+      });
+
+      expect(msg.nonce).toBe('nonce_1234567890abcdef');
+      expect(msg.time).toBe(1704067200);
+    });
+  });
+
+  describe('buildEvent', () => {
+    it('should split event code into topic and operation', () => {
+      const event = buildEvent(EventCodes.V7_APP_GROUP_CHAT_DELETE, { chat_id: 'chat_1' }, 100);
+
+      expect(event.topic).toBe('kso.xz.app.group_chat');
+      expect(event.operation).toBe('delete');
+      expect(event.time).toBe(100);
+      expect(event.data).toBe('{"chat_id":"chat_1"}');
+    });
+
+    it('should reject invalid event code', () => {
+      expect(() => buildEvent('invalid', {})).toThrow('Invalid event code');
+    });
+  });
+
+  describe('factories', () => {
+    it('should build data with defaults and overrides', () => {
+      const data = buildV7AppChatMessageCreateData({
+        message: buildV7MessageInfo({ content: { text: 'hi' } }),
+      });
+
+      expect(data.company_id).toBe('company_1');
+      expect(data.chat.id).toBe('chat_1');
+      expect(data.sender).toEqual({ type: 'user', id: 'user_1' });
+      expect(data.message.content.text).toBe('hi');
+      expect(buildV7AppChatCreateData({ chat_id: 'chat_2' }).chat_id).toBe('chat_2');
+      expect(buildV7AppGroupChatData().operator.type).toBe('user');
+      expect(buildV7AppGroupChatMemberUserData().users).toHaveLength(1);
+      expect(buildV7AppGroupChatMemberRobotData().chat_id).toBe('chat_1');
+    });
+
+    it('should feed typed handlers through Dispatcher', async () => {
+      const fn = vi.fn();
+      const dispatcher = new Dispatcher().onV7AppChatMessageCreate(fn);
+      const data = buildV7AppChatMessageCreateData();
+
+      await dispatcher.handle(buildEvent(EventCodes.V7_APP_CHAT_MESSAGE_CREATE, data));
+
+      expect(fn).toHaveBeenCalledWith(expect.objectContaining({ parsedData: data }));
+    });
+  });
+});
@@ -1,19 +1,36 @@
 import { defineConfig } from 'tsup';
 
-export default defineConfig({
-  entry: {
-    index: 'src/index.ts',
-    'event/index': 'src/event/index.ts',
-    'event/model/index': 'src/event/model/index.ts',
+export default defineConfig([
+  {
+    entry: {
+      index: 'src/index.ts',
+      'event/index': 'src/event/index.ts',
+      'event/model/index': 'src/event/model/index.ts',
+      'testing/index': 'src/testing/index.ts',
+    },
+    format: ['cjs', 'esm'],
+    dts: true,
+    sourcemap: true,
+    clean: true,
+    splitting: false,
+    treeshake: true,
+    minify: false,
+    target: 'node18',
+    outDir: 'dist',
+    external: ['ws'],
   },
-  format: ['cjs', 'esm'],
-  dts: true,
-  sourcemap: true,
-  clean: true,
-  splitting: false,
-  treeshake: true,
-  minify: false,
-  target: 'node18',
-  outDir: 'dist',
-  external: ['ws'],
-});
+  {
+    entry: {
+      cli: 'src/cli/index.ts',
+    },
+    format: ['cjs'],
+    banner: { js: '#!/usr/bin/env node' },
+    sourcemap: true,
+    splitting: false,
+    treeshake: true,
+    minify: false,
+    target: 'node18',
+    outDir: 'dist',
+    external: ['ws'],
+  },
+]);